@@ -0,0 +1,152 @@
+/**
+ * ------------------
+ * Conditional Types
+ * ------------------
+ * A conditional type selects one of two possible types based on a condition expressed as a type
+ * relationship test:
+ *
+ *      T extends U ? X : Y
+ *
+ * The type above means when T is assignable to U the type is X, otherwise the type is Y.
+ *
+ * A conditional type T extends U ? X : Y is either resolved to X or Y, or deferred because the
+ * condition depends on one or more type variables. Whether to resolve or defer is determined as
+ * follows: first, given types T' and U' that are instantiations of T and U where all occurrences of
+ * type parameters are replaced with any, if T' is not assignable to U', the conditional type is
+ * resolved to Y. Intuitively, if the most permissive instantiation of T is not assignable to the
+ * most permissive instantiation of U, we know that no instantiation will be and we can just resolve
+ * to Y. Next, if T is assignable to U the type is resolved to X. Otherwise, the type is deferred.
+ *
+ * As an example of some types that are immediately resolved, we can take a look at the following
+ * example:
+ */
+type TypeName<T> =
+    T extends string ? "string" :
+    T extends number ? "number" :
+    T extends boolean ? "boolean" :
+    T extends undefined ? "undefined" :
+    T extends Function ? "function" :
+    "object";
+
+let t0: TypeName<string> = "string";
+let t1: TypeName<"a"> = "string";
+let t2: TypeName<true> = "boolean";
+let t3: TypeName<() => void> = "function";
+let t4: TypeName<string[]> = "object";
+let t5: TypeName<() => void> = "object";    // Error TS2322: a function type is named "function"
+
+/**
+ * TypeName mirrors what the typeof operator tells us at runtime, so a function returning typeof x
+ * can promise the more precise type, while still being checked against its implementation:
+ */
+function typeName<T>(x: T): TypeName<T> {
+    return <TypeName<T>>(Array.isArray(x) ? "object" : typeof x);
+}
+
+typeName("hello");  // returns string
+typeName([1, 2]);   // returns object
+
+/**
+ * -------------------------------
+ * Distributive conditional types
+ * -------------------------------
+ * Conditional types in which the checked type is a naked type parameter are called distributive
+ * conditional types. Distributive conditional types are automatically distributed over union types
+ * during instantiation. For example, an instantiation of T extends U ? X : Y with the type argument
+ * A | B | C for T is resolved as (A extends U ? X : Y) | (B extends U ? X : Y) | (C extends U ? X : Y).
+ */
+let t6: TypeName<string | (() => void)> = "function";   // "string" | "function"
+let t7: TypeName<string | string[]> = "object";  // "string" | "object"
+
+/**
+ * The distributive property of conditional types can conveniently be used to filter union types.
+ * We’ll filter the shapes of Discriminated Unions by their kind:
+ */
+interface Shape {
+    color: string;
+}
+interface Square extends Shape {
+    kind: "square";
+    sideLength: number;
+}
+interface Rectangle extends Shape {
+    kind: "rectangle";
+    width: number;
+    height: number;
+}
+interface Circle extends Shape {
+    kind: "circle";
+    radius: number;
+}
+
+type AnyShape = Square | Rectangle | Circle;
+
+type Diff<T, U> = T extends U ? never : T;  // Remove types from T that are assignable to U
+type Filter<T, U> = T extends U ? T : never;    // Remove types from T that are not assignable to U
+
+type Polygon = Filter<AnyShape, { kind: "square" | "rectangle" }>;  // Square | Rectangle
+type Round = Diff<AnyShape, Polygon>;   // Circle
+
+function perimeter(p: Polygon) {
+    return p.kind === "square" ? 4 * p.sideLength : 2 * (p.width + p.height);
+}
+
+perimeter({ kind: "square", color: "blue", sideLength: 3 });    // returns 12
+perimeter({ kind: "circle", color: "green", radius: 1 });   // Error TS2322: a circle is not a Polygon
+
+let wheel: Round = { kind: "circle", color: "black", radius: 30 };
+
+/**
+ * Diff and Filter ship with TypeScript as Exclude and Extract, along with NonNullable, which removes
+ * null and undefined from a type.
+ *
+ * ------------------------------------
+ * Type inference in conditional types
+ * ------------------------------------
+ * Within the extends clause of a conditional type, it is now possible to have infer declarations
+ * that introduce a type variable to be inferred. Such inferred type variables may be referenced in
+ * the true branch of the conditional type. It is possible to have multiple infer locations for the
+ * same type variable.
+ *
+ * For example, the following extracts the return type of a function type:
+ *
+ *      type ReturnType<T> = T extends (...args: any[]) => infer R ? R : any;
+ *
+ * ReturnType is part of TypeScript’s standard library too. Here, it recovers the result type of
+ * createSquare from Interfaces without our having to spell it out again:
+ */
+interface SquareConfig {
+    color?: string;
+    width?: number;
+}
+
+function createSquare(config: SquareConfig): {color: string; area: number} {
+    let newSquare = {color: "white", area: 100};
+    if (config.color) {
+        newSquare.color = config.color;
+    }
+    if (config.width) {
+        newSquare.area = config.width * config.width;
+    }
+    return newSquare;
+}
+
+let mySquare: ReturnType<typeof createSquare> = createSquare({color: "black"});
+mySquare.area;  // returns 100
+mySquare.width; // Error TS2339: createSquare's result has no width
+
+/**
+ * Conditional types can be nested to form a sequence of pattern matches that are evaluated in
+ * order:
+ */
+type Unpacked<T> =
+    T extends (infer U)[] ? U :
+    T extends (...args: any[]) => infer U ? U :
+    T extends Promise<infer U> ? U :
+    T;
+
+let u0: Unpacked<string> = "string";
+let u1: Unpacked<AnyShape[]> = { kind: "circle", color: "red", radius: 2 };
+let u2: Unpacked<() => string> = "string";
+let u3: Unpacked<Promise<string>> = "string";
+let u4: Unpacked<Promise<string>[]> = "string"; // Error TS2322: this unpacks to Promise<string> only
\ No newline at end of file
@@ -0,0 +1,129 @@
+/**
+ * ---------------------
+ * Discriminated Unions
+ * ---------------------
+ * You can combine singleton types, union types, type guards, and type aliases to build an advanced
+ * pattern called discriminated unions, also known as tagged unions or algebraic data types.
+ * Discriminated unions are useful in functional programming. Some languages automatically
+ * discriminate unions for you; TypeScript instead builds on JavaScript patterns as they exist
+ * today. There are three ingredients:
+ *
+ *      1. Types that have a common, singleton type property — the discriminant.
+ *      2. A type alias that takes the union of those types — the union.
+ *      3. Type guards on the common property.
+ *
+ * We’ll give every Shape from Interfaces a kind to tell them apart:
+ */
+interface Shape {
+    color: string;
+}
+interface Square extends Shape {
+    kind: "square";
+    sideLength: number;
+}
+interface Rectangle extends Shape {
+    kind: "rectangle";
+    width: number;
+    height: number;
+}
+interface Circle extends Shape {
+    kind: "circle";
+    radius: number;
+}
+
+/**
+ * First we declare the interfaces we will union. Each interface has a kind property with a different
+ * string literal type. The kind property is called the discriminant or tag. The other properties are
+ * specific to each interface. Notice that the interfaces are currently unrelated, apart from the
+ * color they all get from Shape. Let’s put them into a union:
+ */
+type AnyShape = Square | Rectangle | Circle;
+
+/**
+ * Now let’s use the discriminated union:
+ */
+function area(s: AnyShape) {
+    switch (s.kind) {
+        case "square": return s.sideLength * s.sideLength;
+        case "rectangle": return s.height * s.width;
+        case "circle": return Math.PI * s.radius ** 2;
+    }
+}
+
+area({ kind: "square", color: "blue", sideLength: 10 });    // returns 100
+area({ kind: "rectangle", color: "red", width: 2, height: 3 }); // returns 6
+area({ kind: "circle", color: "green", sideLength: 1 });    // Error TS2353: circles have a radius
+
+/**
+ * Within each case, s is narrowed to the one shape with that kind, which is why s.sideLength is
+ * allowed under "square" but would be an error under "circle".
+ *
+ * ------------------------
+ * Exhaustiveness checking
+ * ------------------------
+ * We would like the compiler to tell us when we don’t cover all variants of the discriminated union.
+ * For example, if we add Triangle to AnyShape, we need to update area as well. One way to get that
+ * check is to use the never type that the compiler uses for exhaustiveness checking:
+ */
+interface Triangle extends Shape {
+    kind: "triangle";
+    base: number;
+    height: number;
+}
+
+function assertNever(x: never): never {
+    throw new Error("Unexpected object: " + x);
+}
+
+{
+    type AnyShape = Square | Rectangle | Circle | Triangle;
+
+    function area(s: AnyShape) {
+        switch (s.kind) {
+            case "square": return s.sideLength * s.sideLength;
+            case "rectangle": return s.height * s.width;
+            case "circle": return Math.PI * s.radius ** 2;
+            default: return assertNever(s); // Error TS2345: 'Triangle' is not assignable to 'never'
+        }
+    }
+}
+
+/**
+ * Here, assertNever checks that s is of type never — the type that’s left after all other cases
+ * have been removed. If you forget a case, then s will have a real type and you will get a type
+ * error. Adding the missing case makes the error go away:
+ */
+{
+    type AnyShape = Square | Rectangle | Circle | Triangle;
+
+    function area(s: AnyShape) {
+        switch (s.kind) {
+            case "square": return s.sideLength * s.sideLength;
+            case "rectangle": return s.height * s.width;
+            case "circle": return Math.PI * s.radius ** 2;
+            case "triangle": return s.base * s.height / 2;
+            default: return assertNever(s);
+        }
+    }
+
+    area({ kind: "triangle", color: "black", base: 4, height: 3 }); // returns 6
+}
+
+/**
+ * assertNever also throws if a value that doesn’t fit the union sneaks in at runtime, for instance
+ * from untyped JavaScript:
+ */
+{
+    function kindOf(s: AnyShape): string {
+        switch (s.kind) {
+            case "square":
+            case "rectangle":
+            case "circle":
+                return s.kind;
+            default:
+                return assertNever(s);
+        }
+    }
+
+    kindOf(<any>{ kind: "hexagon", color: "white" });   // throws Error
+}
\ No newline at end of file
@@ -0,0 +1,89 @@
+/**
+ * ------------
+ * Index types
+ * ------------
+ * With index types, you can get the compiler to check code that uses dynamic property names. For
+ * example, a common JavaScript pattern is to pick a subset of properties from an object:
+ *
+ *      function pluck(o, propertyNames) {
+ *          return propertyNames.map(n => o[n]);
+ *      }
+ *
+ * Here’s how you would write and use this function in TypeScript, using the index type query and
+ * indexed access operators. We’ll pluck from the SquareConfig option bag of Interfaces:
+ */
+function pluck<T, K extends keyof T>(o: T, propertyNames: K[]): T[K][] {
+    return propertyNames.map(n => o[n]);
+}
+
+interface SquareConfig {
+    color?: string;
+    width?: number;
+}
+
+let config: SquareConfig = {
+    color: "black",
+    width: 20
+};
+
+pluck(config, ["color"]);   // returns ['black']
+pluck(config, ["colour"]);  // Error TS2820: did you mean '"color"'?
+
+/**
+ * The compiler checks that color is actually a property of SquareConfig. The example introduces a
+ * couple of new type operators. First is keyof T, the index type query operator. For any type T,
+ * keyof T is the union of known, public property names of T. For example:
+ */
+let configProp: keyof SquareConfig; // "color" | "width"
+configProp = "width";
+configProp = "colour";  // Error TS2820: "colour" is not one of SquareConfig's keys
+
+/**
+ * keyof SquareConfig is completely interchangeable with "color" | "width". The difference is that if
+ * you add another property to SquareConfig, say opacity: number, then keyof SquareConfig will
+ * automatically update to be "color" | "width" | "opacity". And you can use keyof in generic
+ * contexts like pluck, where you can’t possibly know the property names ahead of time. That means
+ * the compiler will check that you pass the right set of property names to pluck.
+ *
+ * The second operator is T[K], the indexed access operator. Here, the type syntax reflects the
+ * expression syntax. That means that config["width"] has the type SquareConfig["width"] — which in
+ * our example is just number. However, just like index type queries, you can use T[K] in a generic
+ * context, which is where its real power comes to life. You just have to make sure that the type
+ * variable K extends keyof T. Here’s another example with a function named getProperty.
+ */
+function getProperty<T, K extends keyof T>(o: T, propertyName: K): T[K] {
+    return o[propertyName]; // o[propertyName] is of type T[K]
+}
+
+/**
+ * In getProperty, o: T and propertyName: K, so that means o[propertyName]: T[K]. Once you return
+ * the T[K] result, the compiler will instantiate the actual type of the key, so the return type of
+ * getProperty will vary according to which property you request.
+ */
+let color: string = getProperty(config, "color");
+let width: number = getProperty(config, "width");
+let wrong: string = getProperty(config, "width");   // Error TS2322: width is a number
+
+width;  // returns 20
+
+/**
+ * ---------------------------------
+ * Index types and index signatures
+ * ---------------------------------
+ * keyof and T[K] interact with index signatures. The SquareConfig that Interfaces ends up with
+ * accepts any number of extra properties through a string index signature; keyof for it is
+ * string | number, because you can use either kind of key to index into it, and the indexed access
+ * type for any other key is the index signature’s type:
+ */
+interface OpenSquareConfig {
+    color?: string;
+    width?: number;
+    [propName: string]: any;
+}
+
+let openKeys: keyof OpenSquareConfig;   // string | number
+let opacity: OpenSquareConfig["opacity"];   // any
+
+openKeys = "opacity";
+openKeys = 42;
+openKeys = true;    // Error TS2322: booleans can't index an object
\ No newline at end of file
@@ -0,0 +1,106 @@
+/**
+ * -------------------
+ * Intersection Types
+ * -------------------
+ * An intersection type combines multiple types into one. This allows you to add together existing
+ * types to get a single type that has all the features you need. For example, Square & PenStroke is
+ * a Square and a PenStroke. That means an object of this type will have all members of both types.
+ *
+ * In Interfaces we built a stroked square by declaring an interface that extends both Shape and
+ * PenStroke. An intersection gets us the same type without having to name it up front:
+ */
+interface Shape {
+    color: string;
+}
+interface Square extends Shape {
+    sideLength: number;
+}
+interface PenStroke {
+    penWidth: number;
+}
+
+let strokedSquare: Square & PenStroke = { color: "red", sideLength: 10, penWidth: 5.0 };
+
+/**
+ * You will mostly see intersection types used for mixins and other concepts that don’t fit in the
+ * classic object-oriented mold. (There are a lot of these in JavaScript!) Here’s a simple example
+ * that shows how to create a mixin:
+ */
+function extend<First, Second>(first: First, second: Second): First & Second {
+    return { ...first, ...second };
+}
+
+let square: Square = { color: "blue", sideLength: 10 };
+let stroke: PenStroke = { penWidth: 2.5 };
+let blueStrokedSquare = extend(square, stroke);
+
+blueStrokedSquare.color;    // returns blue
+blueStrokedSquare.penWidth; // returns 2.5
+
+/**
+ * ------------
+ * Union Types
+ * ------------
+ * Union types are closely related to intersection types, but they are used very differently.
+ * Occasionally, you’ll run into a library that expects a parameter to be either a number or a
+ * string. For instance, take the following function:
+ */
+function padLeft(value: string, padding: any) {
+    if (typeof padding === "number") {
+        return Array(padding + 1).join(" ") + value;
+    }
+    if (typeof padding === "string") {
+        return padding + value;
+    }
+    throw new Error(`Expected string or number, got '${ padding }'.`);
+}
+
+padLeft("Hello world", ">> ");  // returns ">> Hello world"
+
+/**
+ * The problem with padLeft is that its padding parameter is typed as any. That means that we can
+ * call it with an argument that’s neither a number nor a string, but TypeScript will be okay with it.
+ */
+padLeft("Hello world", true);   // throws Error at runtime, but passes at compile time
+
+/**
+ * Instead of any, we can use a union type for the padding parameter:
+ */
+{
+    function padLeft(value: string, padding: string | number) {
+        if (typeof padding === "number") {
+            return Array(padding + 1).join(" ") + value;
+        }
+        return padding + value;
+    }
+
+    let indentedString = padLeft("Hello world", true);  // Error TS2345: boolean is not string | number
+}
+
+/**
+ * A union type describes a value that can be one of several types. We use the vertical bar (|) to
+ * separate each type, so number | string | boolean is the type of a value that can be a number, a
+ * string, or a boolean.
+ *
+ * If we have a value that has a union type, we can only access members that are common to all types
+ * in the union. Every kind of shape has a color, but only squares have a sideLength:
+ */
+interface Circle extends Shape {
+    radius: number;
+}
+
+function getSmallShape(): Square | Circle {
+    return { color: "green", radius: 1 };
+}
+
+let shape = getSmallShape();
+shape.color;    // returns green
+shape.sideLength;   // Error TS2339: 'sideLength' does not exist on type 'Circle'
+
+/**
+ * Union types can be a bit tricky here, but it just takes a bit of intuition to get used to. If a
+ * value has the type A | B, we only know for certain that it has members that both A and B have.
+ * In this example, Square and Circle both have a color, but we can’t be sure whether a
+ * Square | Circle has a sideLength. If the shape is really a Circle at runtime, then reading
+ * shape.sideLength would quietly give us undefined.
+ */
\ No newline at end of file
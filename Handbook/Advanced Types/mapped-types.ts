@@ -0,0 +1,132 @@
+/**
+ * -------------
+ * Mapped types
+ * -------------
+ * A common task is to take an existing type and make each of its properties optional, or readonly.
+ * In Interfaces we saw readonly properties on a Point, and optional properties on the SquareConfig
+ * option bag:
+ */
+interface SquareConfig {
+    color?: string;
+    width?: number;
+}
+
+/**
+ * This happens often enough in JavaScript that TypeScript provides a way to create new types based
+ * on old types — mapped types. In a mapped type, the new type transforms each property in the old
+ * type in the same way. For example, you can make all properties of a type readonly or optional.
+ * Here are a couple of examples:
+ */
+type ReadonlyAll<T> = {
+    readonly [P in keyof T]: T[P];
+}
+type RequiredAll<T> = {
+    [P in keyof T]-?: T[P];
+}
+
+/**
+ * And to use it:
+ */
+let frozenConfig: ReadonlyAll<SquareConfig> = { color: "red", width: 100 };
+frozenConfig.width = 50;    // Error TS2540: 'width' is a read-only property
+
+let completeConfig: RequiredAll<SquareConfig> = { color: "red" };   // Error TS2741: 'width' is missing
+
+/**
+ * The syntax resembles the syntax for index signatures with a for .. in inside. Let’s take a look
+ * at the simplest mapped type and its parts:
+ *
+ *      type Keys = "option1" | "option2";
+ *      type Flags = { [K in Keys]: boolean };
+ *
+ * There are three parts:
+ *
+ *      1. The type variable K, which gets bound to each property in turn.
+ *      2. The string literal union Keys, which contains the names of properties to iterate over.
+ *      3. The resulting type of the property.
+ *
+ * In the examples above, the keys come from keyof SquareConfig, and the type of each property is
+ * found with the indexed access SquareConfig[P]. This is a good template for any general use of
+ * mapped types. That’s because this kind of transformation is homomorphic, which means that the
+ * mapping applies only to properties of T and no others: optional properties stay optional, unless
+ * a modifier such as -? removes that.
+ *
+ * ReadonlyAll and RequiredAll are so useful that they are included in TypeScript’s standard library,
+ * as Readonly and Required, along with Partial, Pick and Record:
+ *
+ *      type Partial<T> = {
+ *          [P in keyof T]?: T[P];
+ *      }
+ *      type Pick<T, K extends keyof T> = {
+ *          [P in K]: T[P];
+ *      }
+ *      type Record<K extends keyof any, T> = {
+ *          [P in K]: T;
+ *      }
+ */
+interface Square {
+    color: string;
+    sideLength: number;
+}
+
+let squareUpdate: Partial<Square> = { sideLength: 20 };
+let swatch: Pick<Square, "color"> = { color: "blue" };
+let palette: Record<"primary" | "accent", Pick<Square, "color">> = {
+    primary: { color: "blue" },
+    accent: { color: "orange" }
+};
+
+palette.accent.color;   // returns orange
+
+/**
+ * Readonly, Partial and Pick are homomorphic whereas Record is not. One clue that Record is not
+ * homomorphic is that it doesn’t take an input type to copy properties from. Non-homomorphic types
+ * are essentially creating new properties, so they can’t copy property modifiers from anywhere.
+ *
+ * ------------------------
+ * Mapped types at runtime
+ * ------------------------
+ * Mapped types describe how to transform a type; the code that transforms values still has to be
+ * written by hand. Here, we wrap every property of an object in a pair of get and set functions:
+ */
+type Proxy<T> = {
+    get(): T;
+    set(value: T): void;
+}
+type Proxify<T> = {
+    [P in keyof T]: Proxy<T[P]>;
+}
+
+function proxify<T>(o: T): Proxify<T> {
+    const result = {} as Proxify<T>;
+    for (const k in o) {
+        result[k] = {
+            get: () => o[k],
+            set: value => { o[k] = value; }
+        };
+    }
+    return result;
+}
+
+let config: SquareConfig = { color: "black", width: 20 };
+let proxyConfig = proxify(config);
+proxyConfig.width.set(40);
+
+proxyConfig.width.get();    // returns 40
+config.width;   // returns 40
+proxyConfig.color.set(40);  // Error TS2345: color is a string
+
+/**
+ * Note that unwrapping is just as easy as wrapping, and the compiler can infer T for it from the
+ * Proxify<T> it is given:
+ */
+function unproxify<T>(t: Proxify<T>): T {
+    let result = {} as T;
+    for (const k in t) {
+        result[k] = t[k].get();
+    }
+    return result;
+}
+
+let originalConfig = unproxify(proxyConfig);
+originalConfig; // returns { color: 'black', width: 40 }
\ No newline at end of file
@@ -0,0 +1,198 @@
+/**
+ * --------------------------------------
+ * Type Guards and Differentiating Types
+ * --------------------------------------
+ * Union types are useful for modeling situations when values can overlap in the types they can take
+ * on. What happens when we need to know specifically which type we have? We’ll use the Animal
+ * hierarchy from Inheritance, with a little more for each animal to do:
+ */
+class Animal {
+    name: string;
+    constructor(theName: string) { this.name = theName; }
+    move(distanceInMeters: number = 0) {
+        console.log(`${ this.name } moved ${ distanceInMeters }m.`);
+    }
+}
+
+class Snake extends Animal {
+    constructor(name: string) { super(name); }
+    move(distanceInMeters = 5) {
+        console.log("Slithering...");
+        super.move(distanceInMeters);
+    }
+    shed() {
+        console.log(`${ this.name } sheds its skin.`);
+    }
+}
+
+class Horse extends Animal {
+    constructor(name: string) { super(name); }
+    move(distanceInMeters = 45) {
+        console.log("Galloping...");
+        super.move(distanceInMeters);
+    }
+    neigh() {
+        console.log(`${ this.name } neighs.`);
+    }
+}
+
+function getPet(name: string): Snake | Horse {
+    return name === "Sammy" ? new Snake("Sammy the Python") : new Horse("Tommy the Palomino");
+}
+
+/**
+ * A common idiom in JavaScript to differentiate between two possible values is to check for the
+ * presence of a member. As we mentioned, you can only access members that are guaranteed to be in
+ * all the constituents of a union type.
+ */
+let pet = getPet("Sammy");
+
+// Error TS2339: Property 'shed' does not exist on type 'Horse'
+if (pet.shed) {
+    pet.shed();
+}
+
+/**
+ * To get the same code working, we’ll need to use a type assertion:
+ */
+if ((<Snake>pet).shed) {
+    (<Snake>pet).shed();    // outputs "Sammy the Python sheds its skin."
+}
+else {
+    (<Horse>pet).neigh();
+}
+
+/**
+ * -------------------------
+ * User-Defined Type Guards
+ * -------------------------
+ * Notice that we had to use type assertions several times. It would be much better if once we
+ * performed the check, we could know the type of pet within each branch.
+ *
+ * It just so happens that TypeScript has something called a type guard. A type guard is some
+ * expression that performs a runtime check that guarantees the type in some scope. To define a type
+ * guard, we simply need to define a function whose return type is a type predicate:
+ */
+function isSnake(pet: Snake | Horse): pet is Snake {
+    return (<Snake>pet).shed !== undefined;
+}
+
+/**
+ * pet is Snake is our type predicate in this example. A predicate takes the form
+ * parameterName is Type, where parameterName must be the name of a parameter from the current
+ * function signature.
+ *
+ * Any time isSnake is called with some variable, TypeScript will narrow that variable to that
+ * specific type if the original type is compatible.
+ */
+{
+    let pet = getPet("Tommy");
+    if (isSnake(pet)) {
+        pet.shed();
+    }
+    else {
+        pet.neigh();    // outputs "Tommy the Palomino neighs."
+    }
+}
+
+/**
+ * Notice that TypeScript not only knows that pet is a Snake in the if branch; it also knows that in
+ * the else branch, you don’t have a Snake, so you must have a Horse.
+ *
+ * The in operator also acts as a narrowing expression for types. For a n in x expression, where n
+ * is a string literal and x is a union type, the “true” branch narrows to types which have an
+ * optional or required property n, and the “false” branch narrows to types which have an optional
+ * or missing property n.
+ */
+function exercise(pet: Snake | Horse) {
+    if ("shed" in pet) {
+        return pet.shed();
+    }
+    return pet.neigh();
+}
+
+exercise(getPet("Tommy"));  // outputs "Tommy the Palomino neighs."
+
+/**
+ * -------------------
+ * typeof type guards
+ * -------------------
+ * Let’s go back and write the code for the version of padLeft which uses union types. We could
+ * write it with type predicates as follows:
+ */
+function isNumber(x: any): x is number {
+    return typeof x === "number";
+}
+
+function isString(x: any): x is string {
+    return typeof x === "string";
+}
+
+function padLeft(value: string, padding: string | number) {
+    if (isNumber(padding)) {
+        return Array(padding + 1).join(" ") + value;
+    }
+    if (isString(padding)) {
+        return padding + value;
+    }
+    throw new Error(`Expected string or number, got '${ padding }'.`);
+}
+
+/**
+ * However, having to define a function to figure out if a type is a primitive is kind of a pain.
+ * Luckily, you don’t need to abstract typeof x === "number" into its own function because
+ * TypeScript will recognize it as a type guard on its own. That means we could just write these
+ * checks inline.
+ */
+{
+    function padLeft(value: string, padding: string | number) {
+        if (typeof padding === "number") {
+            return Array(padding + 1).join(" ") + value;
+        }
+        if (typeof padding === "string") {
+            return padding + value;
+        }
+        throw new Error(`Expected string or number, got '${ padding }'.`);
+    }
+
+    padLeft("Hello world", ">> ");  // returns ">> Hello world"
+}
+
+/**
+ * These typeof type guards are recognized in two different forms: typeof v === "typename" and
+ * typeof v !== "typename", where "typename" must be "number", "string", "boolean", or "symbol".
+ * While TypeScript won’t stop you from comparing to other strings, the language won’t recognize
+ * those expressions as type guards.
+ *
+ * -----------------------
+ * instanceof type guards
+ * -----------------------
+ * If you’ve read about typeof type guards and are familiar with the instanceof operator in
+ * JavaScript, you probably have some idea of what this section is about.
+ *
+ * instanceof type guards are a way of narrowing types using their constructor function. Since Snake
+ * and Horse are classes, any Animal can be told apart without isSnake:
+ */
+function care(pet: Animal) {
+    if (pet instanceof Snake) {
+        pet;    // type narrowed to 'Snake'
+        pet.shed();
+    }
+    if (pet instanceof Horse) {
+        pet;    // type narrowed to 'Horse'
+        pet.neigh();
+    }
+    pet.neigh();    // Error TS2339: outside the guards pet is just an Animal
+}
+
+care(getPet("Sammy"));  // outputs "Sammy the Python sheds its skin."
+
+/**
+ * The right side of the instanceof needs to be a constructor function, and TypeScript will narrow
+ * down to:
+ *
+ *      1. the type of the function’s prototype property if its type is not any
+ *      2. the union of types returned by that type’s construct signatures
+ *
+ * in that order.
+ */
\ No newline at end of file
@@ -47,8 +47,10 @@ let sentence: string = `Hello, my name is ${ fullName }.
 I'll be ${ age + 1 } years old next month.`;
 
 // This is equivalent to declaring sentence like so:
-let sentence1: string = "Hello , my name is " + fullName + ".\n\n" +
-    "I'll be " + (age + 1) + " years old next month.";
+{
+    let sentence: string = "Hello, my name is " + fullName + ".\n\n" +
+        "I'll be " + (age + 1) + " years old next month.";
+}
 
 /**
  * ------
@@ -60,7 +62,9 @@ let sentence1: string = "Hello , my name is " + fullName + ".\n\n" +
  */
 let list: number[] = [1, 2, 3];
 // The second way uses a generic array type, Array<elemType>:
-let list1: Array<number> = [1, 2, 3];
+{
+    let list: Array<number> = [1, 2, 3];
+}
 
 /**
  * ------
@@ -75,16 +79,15 @@ let x: [string, number];
 // Initialize it
 x = ["hello", 10];  // Ok
 // Initialize it incorrectly
-// x = [10, "hello"]; // Error
+x = [10, "hello"]; // Error TS2322: Type 'number' is not assignable to type 'string'.
 
 // When accessing an element with a known index, the correct type is retrieved:
 console.log(x[0].substr(1));    // Ok
-// console.log(x[1].substr(1));    // Error, 'number' does not have 'substr'
+console.log(x[1].substr(1));    // Error TS2339: Property 'substr' does not exist on type 'number'.
 
-// When accessing an element outside the set of known indices, a union type is used instead:
-x[3] = "world"; // Ok, 'string' can be assigned to 'string | number'
-console.log(x[5].toString());   // Ok, 'string' and 'number' both have 'toString'
-// x[6] = true;    // Error, 'boolean' isn't 'string | number'
+// Accessing an element outside the set of known indices fails with an error:
+x[3] = "world"; // Error TS2493: Tuple type '[string, number]' of length '2' has no element at index '3'.
+console.log(x[5].toString());   // Error TS2493: Tuple type '[string, number]' of length '2' has no element at index '5'.
 
 /**
  * -----
@@ -101,21 +104,27 @@ let c: Color = Color.Green;
  * setting the value of one of its members. For example, we can start the previous example at 1 
  * instead of 0:
  */
-enum Color1 { Red = 1, Green, Blue }
-let c1: Color1 = Color1.Green;
+{
+    enum Color { Red = 1, Green, Blue }
+    let c: Color = Color.Green;
+}
 
 // even manually set all the values in the enum:
-enum Color2 { Red = 1, Green = 2, Blue = 4 }
-let c2: Color2 = Color2.Green;
+{
+    enum Color { Red = 1, Green = 2, Blue = 4 }
+    let c: Color = Color.Green;
+}
 
 /**
  * A handy feature of enums is that you can also go from a numeric value to the name of that 
  * value in the enum. For example, if we had the value 2 but weren’t sure what that mapped to in 
  * the Color enum above, we could look up the corresponding name:
  */
-enum Color3 { Red = 1, Green, Blue }
-let colorName: string = Color3[2];
-alert(colorName);   // Display 'Green' as its value is 2 above
+{
+    enum Color { Red = 1, Green, Blue }
+    let colorName: string = Color[2];
+    alert(colorName);   // Display 'Green' as its value is 2 above
+}
 
 /**
  * ----
@@ -136,18 +145,20 @@ notSure = false;    // okay, definitely a boolean
  * similar role, as it does in other languages. But variables of type Object only allow you to 
  * assign any value to them - you can’t call arbitrary methods on them, even ones that actually exist:
  */
-notSure.ifItExists();   // okay, ifItExists might exist at runtime
-notSure.toFixed();      // okay, toFixed exists (but the compiler doesn't check)
+notSure.ifItExists();   // throws TypeError at runtime, but compiles: ifItExists might exist
+notSure.toFixed();      // throws TypeError as notSure is now false (but the compiler doesn't check)
 
 let prettySure: Object = 4;
-// prettySure.toFixed();   // Error: Property 'toFixed' doesn't exist on type 'Object'
+prettySure.toFixed();   // Error TS2339: Property 'toFixed' doesn't exist on type 'Object'
 
 /**
  * The any type is also handy if you know some part of the type, but perhaps not all of it. For 
  * example, you may have an array but the array has a mix of different types:
  */
-let list2: any[] = [1, true, "free"];
-list2[1] = 100;
+{
+    let list: any[] = [1, true, "free"];
+    list[1] = 100;
+}
 
 /**
  * -----
@@ -231,8 +242,10 @@ let someValue: any = "this is a string";
 let strLength: number = (<string>someValue).length;
 
 // And the other is the as-syntax
-let someValue1: any = "this is a string";
-let strLength1: number = (someValue1 as string).length;
+{
+    let someValue: any = "this is a string";
+    let strLength: number = (someValue as string).length;
+}
 
 /**
  * The two samples are equivalent. Using one over the other is mostly a choice of preference; 
@@ -7,7 +7,7 @@
  * for its members. The abstract keyword is used to define abstract classes as well as abstract 
  * methods within an abstract class.
  */
-abstract class Animal6 {
+abstract class Animal {
     abstract makeSound(): void;
     move(): void {
         console.log("roaming the earth...");
@@ -47,9 +47,13 @@ class AccountingDepartment extends Department {
 }
 
 let department: Department; // ok to create a reference to an abstract type
-// department = new Department();  // error: cannot create an instance of an abstract class
+department = new Department();  // Error TS2511: Cannot create an instance of an abstract class.
 department = new AccountingDepartment();    // ok to create and assign a non-abstract subclass
 department.printName();
 department.printMeeting();
-// department.generateReports();   // error: method doen't exist on declared abstract type
+department.generateReports();   // Error TS2339: Property 'generateReports' does not exist on type 'Department'.
 
+/**
+ * A Department Directory, in Projects, keeps meetings like this one as data, exports them as a
+ * calendar, and has every department contribute to reports exported as CSV and Markdown.
+ */
\ No newline at end of file
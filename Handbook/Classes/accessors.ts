@@ -7,14 +7,14 @@
  * 
  * Let’s convert a simple class to use get and set.
  */
-class Employee5 {
+class Employee {
     fullName: string;
 }
 
-let employee5 = new Employee5();
-employee5.fullName = "Ashwani Luhaniwal";
-if (employee5.fullName) {
-    console.log(employee5.fullName);
+let employee = new Employee();
+employee.fullName = "Ashwani Luhaniwal";
+if (employee.fullName) {
+    console.log(employee.fullName);
 }
 
 /**
@@ -28,27 +28,29 @@ if (employee5.fullName) {
  */
 let passcode = "secret passcode";
 
-class Employee6 {
-    private _fullName: string;
+{
+    class Employee {
+        private _fullName: string;
 
-    get fullName(): string {
-        return this._fullName;
-    }
-
-    set fullName(newName: string) {
-        if (passcode && passcode == "secret passcode") {
-            this._fullName = newName;
+        get fullName(): string {
+            return this._fullName;
         }
-        else {
-            console.log("Error: Unauthorized update of employee!");
+
+        set fullName(newName: string) {
+            if (passcode && passcode == "secret passcode") {
+                this._fullName = newName;
+            }
+            else {
+                console.log("Error: Unauthorized update of employee!");
+            }
         }
     }
-}
 
-let employee6 = new Employee6();
-employee6.fullName = "Ashwani Luhaniwal";
-if (employee6.fullName) {
-    console.log(employee6.fullName);
+    let employee = new Employee();
+    employee.fullName = "Ashwani Luhaniwal";
+    if (employee.fullName) {
+        console.log(employee.fullName);
+    }
 }
 
 /**
@@ -62,4 +64,7 @@ if (employee6.fullName) {
  * to ECMAScript 3 is not supported. Second, accessors with a get and no set are automatically 
  * inferred to be readonly. This is helpful when generating a .d.ts file from your code, because 
  * users of your property can see that they can’t change it.
+ * 
+ * Guarded Properties, in Projects, declares checks like the passcode once per property, throws
+ * an error when a write is refused, and tells subscribers about the writes that succeed.
  */
\ No newline at end of file
@@ -49,19 +49,21 @@ let greeter = new Greeter("world");
  * When you declare a class in TypeScript, you are actually creating multiple declarations at the 
  * same time. The first is the type of the instance of the class.
  */
-class Greeter1 {
-    greeting: string;
-    constructor(message: string) {
-        this.greeting = message;
-    }
-    greet() {
-        return "Hello, " + this.greeting;
+{
+    class Greeter {
+        greeting: string;
+        constructor(message: string) {
+            this.greeting = message;
+        }
+        greet() {
+            return "Hello, " + this.greeting;
+        }
     }
-}
 
-let greeter1: Greeter1;
-greeter1 = new Greeter1("world");
-console.log(greeter1.greet());
+    let greeter: Greeter;
+    greeter = new Greeter("world");
+    console.log(greeter.greet());   // outputs 'Hello, world'
+}
 
 /**
  * Here, when we say let greeter: Greeter, we’re using Greeter as the type of instances of the 
@@ -71,19 +73,21 @@ console.log(greeter1.greet());
  * that is called when we new up instances of the class. To see what this looks like in practice, 
  * let’s take a look at the JavaScript created by the above example:
  */
-let Greeter2 = (function() {
-    function Greeter2(message) {
-        this.greeting = message;
-    }
-    Greeter2.prototype.greet = function() {
-        return "Hello, " + this.greeting;
-    };
-    return Greeter2;
-})();
+{
+    let Greeter = (function() {
+        function Greeter(message) {
+            this.greeting = message;
+        }
+        Greeter.prototype.greet = function() {
+            return "Hello, " + this.greeting;
+        };
+        return Greeter;
+    })();
 
-let greeter2;
-greeter2 = new Greeter2("world");
-console.log(greeter2.greet());
+    let greeter;
+    greeter = new Greeter("world");
+    console.log(greeter.greet());   // outputs 'Hello, world'
+}
 
 /**
  * Here, let Greeter is going to be assigned the constructor function. When we call new and run 
@@ -32,35 +32,37 @@ dog.bark();
  * Because Dog extends the functionality from Animal, we were able to create an instance of Dog 
  * that could both bark() and move().
  */
-class Animal1 {
-    name: string;
-    constructor(theName: string) { this.name = theName; }
-    move(distanceInMeters: number = 0) {
-        console.log(`${ this.name } moved ${ distanceInMeters }m.`);
+{
+    class Animal {
+        name: string;
+        constructor(theName: string) { this.name = theName; }
+        move(distanceInMeters: number = 0) {
+            console.log(`${ this.name } moved ${ distanceInMeters }m.`);
+        }
     }
-}
 
-class Snake extends Animal1 {
-    constructor(name: string) { super(name); }
-    move(distanceInMeters = 5) {
-        console.log("Slithering....");
-        super.move(distanceInMeters);
+    class Snake extends Animal {
+        constructor(name: string) { super(name); }
+        move(distanceInMeters = 5) {
+            console.log("Slithering...");
+            super.move(distanceInMeters);
+        }
     }
-}
 
-class Horse extends Animal1 {
-    constructor(name: string) { super(name); }
-    move(distanceInMeters = 45) {
-        console.log("Galloping...");
-        super.move(distanceInMeters);
+    class Horse extends Animal {
+        constructor(name: string) { super(name); }
+        move(distanceInMeters = 45) {
+            console.log("Galloping...");
+            super.move(distanceInMeters);
+        }
     }
-}
 
-let sam = new Snake("Sammy the Python");
-let tom: Animal = new Horse("Tommy the Palomino");
+    let sam = new Snake("Sammy the Python");
+    let tom: Animal = new Horse("Tommy the Palomino");
 
-sam.move();
-tom.move(34);
+    sam.move();
+    tom.move(34);
+}
 
 /**
  * This example covers a few other features we didn’t previously mention. Again, we see the extends 
@@ -81,4 +83,7 @@ tom.move(34);
  *      Sammy the Python moved 5m.
  *      Galloping...
  *      Tommy the Palomino moved 34m.
+ * 
+ * Animals on the Move, in Projects, puts these animals on a grid and lets each kind decide how
+ * far it goes and what it does when something is in its way.
  */
\ No newline at end of file
@@ -15,7 +15,7 @@
  * You may still mark a member public explicitly. We could have written the Animal class from the 
  * previous section in the following way:
  */
-class Animal2 {
+class Animal {
     public name: string;
     public constructor(theName: string) { this.name = theName; }
     public move(distanceInMeters: number) {
@@ -29,12 +29,14 @@ class Animal2 {
  * ----------------------
  * When a member is marked private, it cannot be accessed from outside of its containing class.
  */
-class Animal3 {
-    private name: string;
-    constructor(theName: string) { this.name = theName; }
-}
+{
+    class Animal {
+        private name: string;
+        constructor(theName: string) { this.name = theName; }
+    }
 
-// new Animal3("Cat").name;    // Error: 'name' is private
+    new Animal("Cat").name;    // Error TS2341: 'name' is private
+}
 
 /**
  * TypeScript is a structural type system. When we compare two different types, regardless of where 
@@ -46,26 +48,28 @@ class Animal3 {
  * then the other must have a private member that originated in the same declaration. The same 
  * applies to protected members.
  */
-class Animal4 {
-    private name: string;
-    constructor(theName: string) { this.name = theName; }
-}
+{
+    class Animal {
+        private name: string;
+        constructor(theName: string) { this.name = theName; }
+    }
 
-class Rhino extends Animal4 {
-    constructor() { super("Rhino"); }
-}
+    class Rhino extends Animal {
+        constructor() { super("Rhino"); }
+    }
 
-class Employee {
-    private name: string;
-    constructor(theName: string) { this.name = theName; }
-}
+    class Employee {
+        private name: string;
+        constructor(theName: string) { this.name = theName; }
+    }
 
-let animal = new Animal4("Goat");
-let rhino = new Rhino();
-let employee = new Employee("Bob");
+    let animal = new Animal("Goat");
+    let rhino = new Rhino();
+    let employee = new Employee("Bob");
 
-animal = rhino;
-// animal = employee;  // Error: 'Animal' and 'Employee' are not compatible
+    animal = rhino;
+    animal = employee;  // Error TS2322: 'Animal' and 'Employee' are not compatible
+}
 
 /**
  * In this example, we have an Animal and a Rhino, with Rhino being a subclass of Animal. We also 
@@ -88,7 +92,7 @@ class Person {
     constructor(name: string) { this.name = name; }
 }
 
-class Employee1 extends Person {
+class Employee extends Person {
     private department: string;
     constructor(name: string, department: string) {
         super(name);
@@ -99,38 +103,43 @@ class Employee1 extends Person {
     }
 }
 
-let howard = new Employee1("Howard", "Sales");
-console.log(howard.getElevatorPitch());
-// console.log(howard.name);   // error
+let howard = new Employee("Howard", "Sales");
+console.log(howard.getElevatorPitch());  // outputs "Hello, my name is Howard and I work in Sales."
+console.log(howard.name);   // Error TS2445: Property 'name' is protected and only accessible within class 'Person' and its subclasses.
 
 /**
  * Notice that while we can’t use name from outside of Person, we can still use it from within 
  * an instance method of Employee because Employee derives from Person.
  * 
+ * A Personnel Model, in Projects, grows Person and Employee into a model of a company’s staff,
+ * and decides which of their private and protected members are saved as JSON.
+ * 
  * A constructor may also be marked protected. This means that the class cannot be instantiated 
  * outside of its containing class, but can be extended.
  */
-class Person1 {
-    protected name: string;
-    protected constructor(theName: string) { this.name = theName; }
-}
+{
+    class Person {
+        protected name: string;
+        protected constructor(theName: string) { this.name = theName; }
+    }
 
-// Employee2 can extend Person
-class Employee2 extends Person1 {
-    private department: string;
+    // Employee can extend Person
+    class Employee extends Person {
+        private department: string;
 
-    constructor(name: string, department: string) {
-        super(name);
-        this.department = department;
-    }
+        constructor(name: string, department: string) {
+            super(name);
+            this.department = department;
+        }
 
-    public getElevatorPitch() {
-        return `Hello, my name is ${ this.name } and I work in ${ this.department }.`;
+        public getElevatorPitch() {
+            return `Hello, my name is ${ this.name } and I work in ${ this.department }.`;
+        }
     }
-}
 
-let howard1 = new Employee2("Howard", "Sales");
-// let john = new Person1("John"); // Error: The 'Person' constructor is protected
+    let howard = new Employee("Howard", "Sales");
+    let john = new Person("John"); // Error TS2674: The 'Person' constructor is protected
+}
 
 /**
  * ------------------
@@ -148,7 +157,7 @@ class Octopus {
 }
 
 let dad = new Octopus("Man with the 8 strong legs");
-// dad.name = "Man with the 3-piece suit"; // error! name is readonly
+dad.name = "Man with the 3-piece suit"; // Error TS2540: Cannot assign to 'name' because it is a read-only property.
 
 /**
  * ---------------------
@@ -159,10 +168,12 @@ let dad = new Octopus("Man with the 8 strong legs");
  * a very common practice. Parameter properties let you create and initialize a member in one place. 
  * Here’s a further revision of the previous Octopus class using a parameter property:
  */
-class Octopus1 {
-    readonly numberOfLegs: number = 8;
-    constructor(readonly name: string) {
+{
+    class Octopus {
+        readonly numberOfLegs: number = 8;
+        constructor(readonly name: string) {
 
+        }
     }
 }
 
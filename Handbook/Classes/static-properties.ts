@@ -7,7 +7,8 @@
  * are visible on the class itself rather than on the instances. In this example, we use static on 
  * the origin, as it’s a general value for all grids. Each instance accesses this value through 
  * prepending the name of the class. Similarly to prepending this. in front of instance accesses, 
- * here we prepend Grid. in front of static accesses.
+ * here we prepend Grid. in front of static accesses. Geometry on a Grid, in Projects, grows this
+ * class into a small geometry module.
  */
 class Grid {
     static origin = {x: 0, y: 0};
@@ -22,5 +23,5 @@ class Grid {
 let grid1 = new Grid(1.0);  // 1x scale
 let grid2 = new Grid(5.0);  // 5x scale
 
-console.log(grid1.calculateDistanceFromOrigin({x: 10, y: 10}));
-console.log(grid2.calculateDistanceFromOrigin({x: 10, y: 10}));
\ No newline at end of file
+console.log(grid1.calculateDistanceFromOrigin({x: 10, y: 10}));  // outputs 14.142135623730951
+console.log(grid2.calculateDistanceFromOrigin({x: 10, y: 10}));  // outputs 2.8284271247461903
\ No newline at end of file
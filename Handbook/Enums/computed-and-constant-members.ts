@@ -0,0 +1,98 @@
+/**
+ * ------------------------------
+ * Computed and constant members
+ * ------------------------------
+ * Each enum member has a value associated with it which can be either constant or computed. An enum
+ * member is considered constant if:
+ *
+ * It is the first member in the enum and it has no initializer, in which case it’s assigned the
+ * value 0:
+ */
+// E.X is constant:
+enum E { X }
+
+E.X;    // returns 0
+
+/**
+ * It does not have an initializer and the preceding enum member was a numeric constant. In this
+ * case the value of the current enum member will be the value of the preceding enum member plus
+ * one.
+ */
+// All enum members in 'E1' and 'E2' are constant.
+enum E1 { X, Y, Z }
+
+enum E2 {
+    A = 1, B, C
+}
+
+E1.Z;   // returns 2
+E2.C;   // returns 3
+
+/**
+ * The enum member is initialized with a constant enum expression. A constant enum expression is a
+ * subset of TypeScript expressions that can be fully evaluated at compile time. An expression is a
+ * constant enum expression if it is:
+ *
+ *      1. a literal enum expression (basically a string literal or a numeric literal)
+ *      2. a reference to previously defined constant enum member (which can originate from a
+ *         different enum)
+ *      3. a parenthesized constant enum expression
+ *      4. one of the +, -, ~ unary operators applied to constant enum expression
+ *      5. +, -, *, /, %, <<, >>, >>>, &, |, ^ binary operators with constant enum expressions as
+ *         operands
+ *
+ * It is a compile time error for constant enum expressions to be evaluated to NaN or Infinity.
+ *
+ * In all other cases enum member is considered computed.
+ */
+enum FileAccess {
+    // constant members
+    None,
+    Read    = 1 << 1,
+    Write   = 1 << 2,
+    ReadWrite  = Read | Write,
+    // computed member
+    G = "123".length
+}
+
+FileAccess.ReadWrite;   // returns 6
+FileAccess.G;   // returns 3
+
+/**
+ * Flags like FileAccess are combined and tested with the same bitwise operators:
+ */
+let access = FileAccess.Read | FileAccess.Write;
+
+access === FileAccess.ReadWrite;    // returns true
+(access & FileAccess.Write) !== 0;  // returns true
+
+/**
+ * Only constant members can be used where the compiler needs to know the value. The Basic Types
+ * Color enum is all constant, so each member can be referred to from another enum’s constant
+ * members, but G can’t:
+ */
+enum Color { Red = 1, Green, Blue }
+
+enum Palette {
+    Primary = Color.Red,
+    Secondary = Color.Blue << 4,
+}
+
+Palette.Secondary;  // returns 48
+
+{
+    // Error TS2474: const enum member initializers must be constant expressions.
+    const enum Flags {
+        Computed = FileAccess.G,
+    }
+}
+
+/**
+ * Constant expressions that don’t evaluate to a finite number are rejected too:
+ */
+{
+    // Error TS2477: 'const' enum member initializer was evaluated to a non-finite value.
+    const enum Ratio {
+        Broken = 1 / 0,
+    }
+}
\ No newline at end of file
@@ -0,0 +1,185 @@
+/**
+ * -----------------
+ * Enums at runtime
+ * -----------------
+ * Enums are real objects that exist at runtime. For example, the following enum
+ */
+enum E {
+    X, Y, Z
+}
+
+/**
+ * can actually be passed around to functions
+ */
+function f(obj: { X: number }) {
+    return obj.X;
+}
+
+// Works, since 'E' has a property named 'X' which is a number.
+f(E);   // returns 0
+
+/**
+ * -----------------
+ * Reverse mappings
+ * -----------------
+ * In addition to creating an object with property names for members, numeric enums members also get
+ * a reverse mapping from enum values to enum names. For example, in this example:
+ */
+enum Enum {
+    A
+}
+
+let a = Enum.A;
+let nameOfA = Enum[a];  // "A"
+
+console.log(nameOfA);   // outputs A
+
+/**
+ * TypeScript might compile this down to something like the following JavaScript, which runs just
+ * the same:
+ */
+{
+    let Enum;
+    (function (Enum) {
+        Enum[Enum["A"] = 0] = "A";
+    })(Enum || (Enum = {}));
+
+    let a = Enum.A;
+    let nameOfA = Enum[a];  // "A"
+
+    console.log(nameOfA);   // outputs A
+}
+
+/**
+ * In this generated code, an enum is compiled into an object that stores both forward (name ->
+ * value) and reverse (value -> name) mappings. The trick is that an assignment expression evaluates
+ * to the value assigned: Enum["A"] = 0 both sets the forward mapping and gives back 0, which is then
+ * used as the key for the reverse mapping Enum[0] = "A". References to other enum members are
+ * always emitted as property accesses and never inlined.
+ *
+ * Keep in mind that string enum members do not get a reverse mapping generated at all:
+ */
+enum Direction {
+    Up = "UP",
+    Down = 1,
+}
+
+/**
+ * compiles to
+ */
+{
+    let Direction;
+    (function (Direction) {
+        Direction["Up"] = "UP";
+        Direction[Direction["Down"] = 1] = "Down";
+    })(Direction || (Direction = {}));
+
+    Object.keys(Direction); // returns ['1', 'Up', 'Down']
+}
+
+/**
+ * so the real enum has no "UP" key to go back from:
+ */
+Object.keys(Direction); // returns ['1', 'Up', 'Down']
+Direction[1];   // returns Down
+Direction["UP"];    // returns undefined
+
+/**
+ * The wrapping function is also why enums merge: a second declaration with the same name adds its
+ * members to the object the first one created, instead of replacing it. All but the first
+ * declaration have to initialize their first member:
+ */
+enum Animal {
+    Dog,
+    Cat,
+}
+
+enum Animal {
+    Bird = 2,
+    Fish,
+}
+
+Animal[3];  // returns Fish
+Animal.Cat; // returns 1
+
+/**
+ * ------------
+ * const enums
+ * ------------
+ * In most cases, enums are a perfectly valid solution. However sometimes requirements are tighter.
+ * To avoid paying the cost of extra generated code and additional indirection when accessing enum
+ * values, it’s possible to use const enums. Const enums are defined using the const modifier on our
+ * enums:
+ */
+const enum ConstEnum {
+    A = 1,
+    B = A * 2
+}
+
+/**
+ * Const enums can only use constant enum expressions and unlike regular enums they are completely
+ * removed during compilation. Const enum members are inlined at use sites. This is possible since
+ * const enums cannot have computed members.
+ */
+const enum Directions {
+    Up,
+    Down,
+    Left,
+    Right
+}
+
+let directions = [Directions.Up, Directions.Down, Directions.Left, Directions.Right];
+
+directions; // returns [0, 1, 2, 3]
+
+/**
+ * in generated code will become
+ */
+{
+    let directions = [0 /* Directions.Up */, 1 /* Directions.Down */, 2 /* Directions.Left */, 3 /* Directions.Right */];
+
+    directions; // returns [0, 1, 2, 3]
+}
+
+/**
+ * Since nothing is left of the enum itself, it can’t be used as a value on its own, and there is no
+ * reverse mapping to look names up in:
+ */
+f(Directions);  // Error TS2475: 'const' enums can only be used in property or index access expressions or the right hand side of an import declaration or export assignment or type query.
+Directions[0];  // Error TS2476: A const enum member can only be accessed using a string literal.
+
+/**
+ * --------------
+ * Ambient enums
+ * --------------
+ * Ambient enums are used to describe the shape of already existing enum types.
+ */
+declare enum AmbientEnum {
+    A = 1,
+    B,
+    C = 2
+}
+
+/**
+ * One important difference between ambient and non-ambient enums is that, in regular enums,
+ * members that don’t have an initializer will be considered constant if its preceding enum member
+ * is considered constant. In contrast, an ambient (and non-const) enum member that does not have
+ * initializer is always considered computed.
+ *
+ * An ambient enum declaration doesn’t generate any code: it promises that the enum exists
+ * somewhere else, for example in a script loaded before ours. Nothing in this chapter defines it,
+ * so using it compiles but fails at runtime:
+ */
+AmbientEnum.A;  // throws ReferenceError
+
+/**
+ * Declaring the ambient enum const as well asks the compiler to inline its values, like any other
+ * const enum, so nothing needs to exist at runtime:
+ */
+declare const enum AmbientConstEnum {
+    A = 1,
+    B,
+    C = 2
+}
+
+AmbientConstEnum.B; // returns 2
\ No newline at end of file
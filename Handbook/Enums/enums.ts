@@ -0,0 +1,133 @@
+/**
+ * --------------------
+ * Enums in TypeScript
+ * --------------------
+ * Enums allow us to define a set of named constants. Using enums can make it easier to document
+ * intent, or create a set of distinct cases. TypeScript provides both numeric and string-based
+ * enums. Basic Types introduced the Color enum; this chapter covers the rest of what enums can do.
+ *
+ * --------------
+ * Numeric enums
+ * --------------
+ * We’ll first start off with numeric enums, which are probably more familiar if you’re coming from
+ * other languages. An enum can be defined using the enum keyword.
+ */
+enum Direction {
+    Up = 1,
+    Down,
+    Left,
+    Right,
+}
+
+Direction.Left; // returns 3
+
+/**
+ * Above, we have a numeric enum where Up is initialized with 1. All of the following members are
+ * auto-incremented from that point on. In other words, Direction.Up has the value 1, Down has 2,
+ * Left has 3, and Right has 4.
+ *
+ * If we wanted, we could leave off the initializers entirely:
+ */
+{
+    enum Direction {
+        Up,
+        Down,
+        Left,
+        Right,
+    }
+
+    Direction.Left; // returns 2
+}
+
+/**
+ * Here, Up would have the value 0, Down would have 1, etc. This auto-incrementing behavior is useful
+ * for cases where we might not care about the member values themselves, but do care that each value
+ * is distinct from other values in the same enum.
+ *
+ * Using an enum is simple: just access any member as a property off of the enum itself, and declare
+ * types using the name of the enum:
+ */
+enum Response {
+    No = 0,
+    Yes = 1,
+}
+
+function respond(recipient: string, message: Response): void {
+    console.log(recipient + (message === Response.Yes ? " said yes" : " said no"));
+}
+
+respond("Princess Caroline", Response.Yes); // outputs "Princess Caroline said yes"
+
+/**
+ * Numeric enums can be mixed in computed and constant members (see below). The short story is,
+ * enums without initializers either need to be first, or have to come after numeric enums
+ * initialized with numeric constants or other constant enum members. In other words, the following
+ * isn’t allowed:
+ */
+function getSomeValue() {
+    return 23;
+}
+
+{
+    // Error TS1061: Enum member must have initializer.
+    enum E {
+        A = getSomeValue(),
+        B,
+    }
+}
+
+/**
+ * -------------
+ * String enums
+ * -------------
+ * String enums are a similar concept, but have some subtle runtime differences as documented below.
+ * In a string enum, each member has to be constant-initialized with a string literal, or with
+ * another string enum member.
+ */
+{
+    enum Direction {
+        Up = "UP",
+        Down = "DOWN",
+        Left = "LEFT",
+        Right = "RIGHT",
+    }
+
+    console.log(Direction.Left);    // outputs LEFT
+}
+
+/**
+ * While string enums don’t have auto-incrementing behavior, string enums have the benefit that
+ * they “serialize” well. In other words, if you were debugging and had to read the runtime value of
+ * a numeric enum, the value is often opaque - it doesn’t convey any useful meaning on its own
+ * (though reverse mapping can often help), string enums allow you to give a meaningful and readable
+ * value when your code runs, independent of the name of the enum member itself.
+ *
+ * That also means a string enum member can’t be left to follow on from one:
+ */
+{
+    // Error TS1061: Enum member must have initializer.
+    enum Direction {
+        Up = "UP",
+        Down,
+    }
+}
+
+/**
+ * --------------------
+ * Heterogeneous enums
+ * --------------------
+ * Technically enums can be mixed with string and numeric members, but it’s not clear why you would
+ * ever want to do so:
+ */
+enum BooleanLikeHeterogeneousEnum {
+    No = 0,
+    Yes = "YES",
+}
+
+BooleanLikeHeterogeneousEnum.No;    // returns 0
+BooleanLikeHeterogeneousEnum.Yes;   // returns YES
+
+/**
+ * Unless you’re really trying to take advantage of JavaScript’s runtime behavior in a clever way,
+ * it’s advised that you don’t do this.
+ */
\ No newline at end of file
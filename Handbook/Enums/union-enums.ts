@@ -0,0 +1,95 @@
+/**
+ * ----------------------------------
+ * Union enums and enum member types
+ * ----------------------------------
+ * There is a special subset of constant enum members that aren’t calculated: literal enum members.
+ * A literal enum member is a constant enum member with no initialized value, or with values that
+ * are initialized to
+ *
+ *      1. any string literal (e.g. "foo", "bar", "baz")
+ *      2. any numeric literal (e.g. 1, 100)
+ *      3. a unary minus applied to any numeric literal (e.g. -1, -100)
+ *
+ * When all members in an enum have literal enum values, some special semantics come into play.
+ *
+ * The first is that enum members also become types as well! For example, we can say that certain
+ * members can only have the value of an enum member. The Shape interfaces from Interfaces become:
+ */
+enum ShapeKind {
+    Circle,
+    Square,
+}
+
+interface Shape {
+    color: string;
+}
+
+interface Circle extends Shape {
+    kind: ShapeKind.Circle;
+    radius: number;
+}
+
+interface Square extends Shape {
+    kind: ShapeKind.Square;
+    sideLength: number;
+}
+
+// Error TS2322: Type 'ShapeKind.Square' is not assignable to type 'ShapeKind.Circle'.
+let c: Circle = {
+    kind: ShapeKind.Square,
+    color: "red",
+    radius: 100,
+};
+
+/**
+ * The other change is that enum types themselves effectively become a union of each enum member.
+ * With union enums, the type system is able to leverage the fact that it knows the exact set of
+ * values that exist in the enum itself. Because of that, TypeScript can catch bugs where we might be
+ * comparing values incorrectly. For example:
+ */
+enum E {
+    Foo,
+    Bar,
+}
+
+function f(x: E) {
+    // Error TS2367: This comparison appears to be unintentional because the types 'E.Foo' and 'E.Bar' have no overlap.
+    if (x !== E.Foo || x !== E.Bar) {
+        //
+    }
+}
+
+/**
+ * In that example, we first checked whether x was not E.Foo. If that check succeeds, then our ||
+ * will short-circuit, and the body of the ‘if’ will run. However, if the check didn’t succeed, then
+ * x can only be E.Foo, so it doesn’t make sense to see whether it’s equal to E.Bar.
+ *
+ * Because ShapeKind is a union of its members, the kind property works as the discriminant of a
+ * discriminated union, just like the string literal kinds in Advanced Types:
+ */
+function area(s: Circle | Square) {
+    switch (s.kind) {
+        case ShapeKind.Circle: return Math.PI * s.radius ** 2;
+        case ShapeKind.Square: return s.sideLength * s.sideLength;
+    }
+}
+
+area({ kind: ShapeKind.Square, color: "blue", sideLength: 10 });    // returns 100
+
+/**
+ * A union enum also accepts only its own members, even though they are plain numbers at runtime.
+ * Only an enum with a computed member isn’t a union enum, since the compiler can’t know all of its
+ * values, so any number may be assigned to it:
+ */
+let kind: ShapeKind = ShapeKind.Circle;
+kind = 7;   // Error TS2322: 7 is not a ShapeKind
+
+enum Weight {
+    Light = 1,
+    Heavy = Math.pow(10, 2),
+}
+
+let weight: Weight = 25;
+weight = Weight.Heavy;
+
+weight; // returns 100
\ No newline at end of file
@@ -0,0 +1,143 @@
+/**
+ * ------------------------
+ * Functions in TypeScript
+ * ------------------------
+ * Functions are the fundamental building block of any application in JavaScript. They’re how you
+ * build up layers of abstraction, mimicking classes, information hiding, and modules. In
+ * TypeScript, while there are classes, namespaces, and modules, functions still play the key role
+ * in describing how to do things. TypeScript also adds some new capabilities to the standard
+ * JavaScript functions to make them easier to work with.
+ *
+ * ----------
+ * Functions
+ * ----------
+ * To begin, just as in JavaScript, TypeScript functions can be created both as a named function or
+ * as an anonymous function. This allows you to choose the most appropriate approach for your
+ * application, whether you’re building a list of functions in an API or a one-off function to hand
+ * off to another function.
+ *
+ * To quickly recap what these two approaches look like in JavaScript:
+ */
+// Named function
+function add(x, y) {
+    return x + y;
+}
+
+// Anonymous function
+let myAdd = function(x, y) { return x + y; };
+
+/**
+ * Just as in JavaScript, functions can refer to variables outside of the function body. When they
+ * do so, they’re said to capture these variables. While understanding how this works, and the
+ * trade-offs when using this technique, are outside of the scope of this article, having a firm
+ * understanding how this mechanic works is an important piece of working with JavaScript and
+ * TypeScript.
+ */
+let z = 100;
+
+function addToZ(x, y) {
+    return x + y + z;
+}
+
+addToZ(1, 2);   // returns 103
+
+/**
+ * ---------------
+ * Function Types
+ * ---------------
+ *
+ * --------------------
+ * Typing the function
+ * --------------------
+ * Let’s add types to our simple examples from earlier:
+ */
+{
+    function add(x: number, y: number): number {
+        return x + y;
+    }
+
+    let myAdd = function(x: number, y: number): number { return x + y; };
+
+    add(1, "2");    // Error TS2345: "2" is not a number
+}
+
+/**
+ * We can add types to each of the parameters and then to the function itself to add a return type.
+ * TypeScript can figure the return type out by looking at the return statements, so we can also
+ * optionally leave this off in many cases.
+ *
+ * --------------------------
+ * Writing the function type
+ * --------------------------
+ * Now that we’ve typed the function, let’s write the full type of the function out by looking at
+ * each piece of the function type.
+ */
+{
+    let myAdd: (x: number, y: number) => number =
+        function(x: number, y: number): number { return x + y; };
+}
+
+/**
+ * A function’s type has the same two parts: the type of the arguments and the return type. When
+ * writing out the whole function type, both parts are required. We write out the parameter types
+ * just like a parameter list, giving each parameter a name and a type. This name is just to help
+ * with readability. We could have instead written:
+ */
+{
+    let myAdd: (baseValue: number, increment: number) => number =
+        function(x: number, y: number): number { return x + y; };
+
+    myAdd(1, 2);    // returns 3
+}
+
+/**
+ * As long as the parameter types line up, it’s considered a valid type for the function, regardless
+ * of the names you give the parameters in the function type.
+ *
+ * The second part is the return type. We make it clear which is the return type by using a fat
+ * arrow (=>) between the parameters and the return type. As mentioned before, this is a required
+ * part of the function type, so if the function doesn’t return a value, you would use void instead
+ * of leaving it off.
+ *
+ * Of note, only the parameters and the return type make up the function type. Captured variables
+ * are not reflected in the type. In effect, captured variables are part of the “hidden state” of any
+ * function and do not make up its API.
+ *
+ * A function type written out like this is the same type as an interface with a call signature,
+ * like the SearchFunc interface from Interfaces. The two can be used interchangeably:
+ */
+interface SearchFunc {
+    (source: string, subString: string): boolean;
+}
+
+let mySearch: SearchFunc = function(source: string, subString: string) {
+    let result = source.search(subString);
+    return result > -1;
+}
+
+let search: (text: string, query: string) => boolean = mySearch;
+search("Hello, world", "world");    // returns true
+
+/**
+ * --------------------
+ * Inferring the types
+ * --------------------
+ * In playing with the example, you may notice that the TypeScript compiler can figure out the type
+ * if you have types on one side of the equation but not the other:
+ */
+{
+    // myAdd has the full function type
+    let myAdd = function(x: number, y: number): number { return  x + y; };
+
+    // The parameters 'x' and 'y' have the type number
+    let myOtherAdd: (baseValue: number, increment: number) => number =
+        function(x, y) { return x + y; };
+
+    myOtherAdd("1", 2); // Error TS2345: contextual typing made x a number
+}
+
+/**
+ * This is called “contextual typing”, a form of type inference. This helps cut down on the amount of
+ * effort to keep your program typed. It is also what let the SearchFunc examples in Interfaces leave
+ * the parameter types off entirely.
+ */
\ No newline at end of file
@@ -0,0 +1,116 @@
+/**
+ * --------------------------------
+ * Optional and Default Parameters
+ * --------------------------------
+ * In TypeScript, every parameter is assumed to be required by the function. This doesn’t mean that
+ * it can’t be given null or undefined, but rather, when the function is called, the compiler will
+ * check that the user has provided a value for each parameter. The compiler also assumes that these
+ * parameters are the only parameters that will be passed to the function. In short, the number of
+ * arguments given to a function has to match the number of parameters the function expects.
+ */
+function buildName(firstName: string, lastName: string) {
+    return firstName + " " + lastName;
+}
+
+let result1 = buildName("Bob");                 // Error TS2554: too few parameters
+let result2 = buildName("Bob", "Adams", "Sr."); // Error TS2554: too many parameters
+let result3 = buildName("Bob", "Adams");        // ah, just right
+
+/**
+ * In JavaScript, every parameter is optional, and users may leave them off as they see fit. When
+ * they do, their value is undefined. We can get this functionality in TypeScript by adding a ? to
+ * the end of parameters we want to be optional. For example, let’s say we want the last name
+ * parameter from above to be optional:
+ */
+{
+    function buildName(firstName: string, lastName?: string) {
+        if (lastName)
+            return firstName + " " + lastName;
+        else
+            return firstName;
+    }
+
+    buildName("Bob");   // returns Bob
+    buildName("Bob", "Adams", "Sr.");   // Error TS2554: too many parameters
+    buildName("Bob", "Adams");  // returns "Bob Adams"
+}
+
+/**
+ * Any optional parameters must follow required parameters. Had we wanted to make the first name
+ * optional, rather than the last name, we would need to change the order of parameters in the
+ * function, putting the first name last in the list.
+ *
+ * In TypeScript, we can also set a value that a parameter will be assigned if the user does not
+ * provide one, or if the user passes undefined in its place. These are called default-initialized
+ * parameters. Let’s take the previous example and default the last name to "Smith".
+ */
+{
+    function buildName(firstName: string, lastName = "Smith") {
+        return firstName + " " + lastName;
+    }
+
+    buildName("Bob");   // returns "Bob Smith"
+    buildName("Bob", undefined);    // returns "Bob Smith"
+    buildName("Bob", "Adams");  // returns "Bob Adams"
+}
+
+/**
+ * Default-initialized parameters that come after all required parameters are treated as optional,
+ * and just like optional parameters, can be omitted when calling their respective function. This
+ * means optional parameters and trailing default parameters will share commonality in their types,
+ * so both
+ *
+ *      function buildName(firstName: string, lastName?: string) {
+ *          // ...
+ *      }
+ *
+ * and
+ *
+ *      function buildName(firstName: string, lastName = "Smith") {
+ *          // ...
+ *      }
+ *
+ * share the same type (firstName: string, lastName?: string) => string. The default value of
+ * lastName disappears in the type, only leaving behind the fact that the parameter is optional.
+ *
+ * Unlike plain optional parameters, default-initialized parameters don’t need to occur after
+ * required parameters. If a default-initialized parameter comes before a required parameter, users
+ * need to explicitly pass undefined to get the default initialized value. For example, we could
+ * write our last example with only a default initializer on firstName:
+ */
+{
+    function buildName(firstName = "Will", lastName: string) {
+        return firstName + " " + lastName;
+    }
+
+    buildName("Bob");   // Error TS2554: too few parameters
+    buildName(undefined, "Adams");  // returns "Will Adams"
+}
+
+/**
+ * -------------------------------------
+ * Defaults for destructured parameters
+ * -------------------------------------
+ * Variable Declaration introduced default values together with destructured parameters, using two
+ * functions that didn’t do anything with their arguments. Here they are again, returning what they
+ * were given, so we can see which default was used. fb defaults its whole parameter:
+ */
+function fb({a, b} = {a: "", b: 0}) {
+    return [a, b];
+}
+
+fb();   // returns ['', 0]
+fb({ a: "yes", b: 1 }); // returns ['yes', 1]
+fb({ a: "yes" });   // Error TS2345: 'b' is required if you supply an argument
+
+/**
+ * fct gives a default to the optional property b itself, on top of a default for the whole
+ * parameter:
+ */
+function fct({ a, b = 0 }: { a: string, b?: number } = { a: "" }) {
+    return [a, b];
+}
+
+fct({ a: "yes" });  // returns ['yes', 0]
+fct();  // returns ['', 0]
+fct({});    // Error TS2345: 'a' is required if you supply an argument
\ No newline at end of file
@@ -0,0 +1,107 @@
+/**
+ * ----------
+ * Overloads
+ * ----------
+ * JavaScript is inherently a very dynamic language. It’s not uncommon for a single JavaScript
+ * function to return different types of objects based on the shape of the arguments passed in.
+ */
+let suits = ["hearts", "spades", "clubs", "diamonds"];
+
+function pickCard(x): any {
+    // Check to see if we're working with an object/array
+    // if so, they gave us the deck and we'll pick the card
+    if (typeof x == "object") {
+        let pickedCard = Math.floor(Math.random() * x.length);
+        return pickedCard;
+    }
+    // Otherwise just let them pick the card
+    else if (typeof x == "number") {
+        let pickedSuit = Math.floor(x / 13);
+        return { suit: suits[pickedSuit], card: x % 13 };
+    }
+}
+
+let myDeck = [{ suit: "diamonds", card: 2 }, { suit: "spades", card: 10 }, { suit: "hearts", card: 4 }];
+let pickedCard1 = myDeck[pickCard(myDeck)];
+let pickedCard2 = pickCard(15);
+
+alert("card: " + pickedCard2.card + " of " + pickedCard2.suit); // outputs "card: 2 of spades"
+pickCard("ace of spades");  // returns undefined
+
+/**
+ * Here the pickCard function will return two different things based on what the user has passed
+ * in. If the user passes in an object that represents the deck, the function will pick the card. If
+ * the user picks the card, we tell them which card they’ve picked. But how do we describe this to
+ * the type system? Nothing stops the call with a string above, either.
+ *
+ * The answer is to supply multiple function types for the same function as a list of overloads.
+ * This list is what the compiler will use to resolve function calls. Let’s create a list of
+ * overloads that describe what our pickCard accepts and what it returns.
+ */
+{
+    function pickCard(x: {suit: string; card: number; }[]): number;
+    function pickCard(x: number): {suit: string; card: number; };
+    function pickCard(x): any {
+        // Check to see if we're working with an object/array
+        // if so, they gave us the deck and we'll pick the card
+        if (typeof x == "object") {
+            let pickedCard = Math.floor(Math.random() * x.length);
+            return pickedCard;
+        }
+        // Otherwise just let them pick the card
+        else if (typeof x == "number") {
+            let pickedSuit = Math.floor(x / 13);
+            return { suit: suits[pickedSuit], card: x % 13 };
+        }
+    }
+
+    let pickedCard1 = myDeck[pickCard(myDeck)];
+    let pickedCard2 = pickCard(15);
+
+    alert("card: " + pickedCard2.card + " of " + pickedCard2.suit); // outputs "card: 2 of spades"
+    pickCard("ace of spades");  // Error TS2769: No overload matches this call
+}
+
+/**
+ * With this change, the overloads now give us type-checked calls to the pickCard function.
+ *
+ * In order for the compiler to pick the correct type check, it follows a similar process to the
+ * underlying JavaScript. It looks at the overload list and, proceeding with the first overload,
+ * attempts to call the function with the provided parameters. If it finds a match, it picks this
+ * overload as the correct overload. For this reason, it’s customary to order overloads from most
+ * specific to least specific.
+ *
+ * Note that the function pickCard(x): any piece is not part of the overload list, so it only has
+ * two overloads: one that takes an object and one that takes a number. Calling pickCard with any
+ * other parameter types would cause an error.
+ *
+ * -------------------------
+ * Overloads and SearchFunc
+ * -------------------------
+ * A function with overloads can be assigned to a function type as long as one of its overloads
+ * matches it. String.prototype.search accepts a regular expression as well as a string, so our
+ * search from Interfaces can too:
+ */
+interface SearchFunc {
+    (source: string, subString: string): boolean;
+}
+
+function search(source: string, subString: string): boolean;
+function search(source: string, pattern: RegExp): boolean;
+function search(source: string, query: string | RegExp): boolean {
+    return source.search(query) > -1;
+}
+
+search("Hello, world", "world");    // returns true
+search("Hello, world", /w.rld/);    // returns true
+search("Hello, world", 42); // Error TS2769: No overload matches this call
+
+let mySearch: SearchFunc = search;  // the first overload matches SearchFunc
+mySearch("Hello, world", "earth");  // returns false
+
+/**
+ * The implementation signature is not visible from outside, so even though it accepts
+ * string | RegExp, callers have to pick one of the overloads:
+ */
+let query: string | RegExp = Math.random() < 2 ? /H/ : "H";
+search("Hello, world", query);  // Error TS2769: neither overload takes string | RegExp
\ No newline at end of file
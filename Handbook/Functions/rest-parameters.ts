@@ -0,0 +1,51 @@
+/**
+ * ----------------
+ * Rest Parameters
+ * ----------------
+ * Required, optional, and default parameters all have one thing in common: they talk about one
+ * parameter at a time. Sometimes, you want to work with multiple parameters as a group, or you may
+ * not know how many parameters a function will ultimately take. In JavaScript, you can work with
+ * the arguments directly using the arguments variable that is visible inside every function body.
+ *
+ * In TypeScript, you can gather these arguments together into a variable:
+ */
+function buildName(firstName: string, ...restOfName: string[]) {
+    return firstName + " " + restOfName.join(" ");
+}
+
+let employeeName = buildName("Joseph", "Samuel", "Lucas", "MacKinzie");
+console.log(employeeName);  // outputs "Joseph Samuel Lucas MacKinzie"
+
+/**
+ * Rest parameters are treated as a boundless number of optional parameters. When passing arguments
+ * for a rest parameter, you can use as many as you want; you can even pass none. The compiler will
+ * build an array of the arguments passed in with the name given after the ellipsis (...), allowing
+ * you to use it in your function.
+ */
+buildName("Joseph");    // returns "Joseph "
+buildName("Joseph", 42);    // Error TS2345: every rest argument has to be a string
+
+/**
+ * The ellipsis is also used in the type of the function with rest parameters:
+ */
+let buildNameFun: (fname: string, ...rest: string[]) => string = buildName;
+
+/**
+ * -------------------------------
+ * Spreading into rest parameters
+ * -------------------------------
+ * The spread operator from Variable Declaration is the other side of rest parameters: it turns an
+ * array back into separate arguments. Spreading an array into a rest parameter is always fine, but
+ * spreading one into fixed parameters is only allowed when the compiler knows how many elements
+ * there are, so tuples work where arrays don’t:
+ */
+let names = ["Samuel", "Lucas"];
+buildNameFun("Joseph", ...names);   // returns "Joseph Samuel Lucas"
+
+function fullName(firstName: string, lastName: string) {
+    return firstName + " " + lastName;
+}
+
+let pair: [string, string] = ["Ada", "Lovelace"];
+fullName(...pair);  // returns "Ada Lovelace"
+fullName(...names); // Error TS2556: names might not have exactly two elements
\ No newline at end of file
@@ -0,0 +1,219 @@
+/**
+ * -----
+ * this
+ * -----
+ * Learning how to use this in JavaScript is something of a rite of passage. Since TypeScript is a
+ * superset of JavaScript, TypeScript developers also need to learn how to use this and how to spot
+ * when it’s not being used correctly. Fortunately, TypeScript lets you catch incorrect uses of this
+ * with a couple of techniques.
+ *
+ * -------------------------
+ * this and arrow functions
+ * -------------------------
+ * In JavaScript, this is a variable that’s set when a function is called. This makes it a very
+ * powerful and flexible feature, but it comes at the cost of always having to know about the context
+ * that a function is executing in. This is notoriously confusing, especially when returning a
+ * function or passing a function as an argument.
+ *
+ * Let’s look at an example. To keep the results predictable, our card picker deals the cards in
+ * order rather than at random:
+ */
+let deck = {
+    suits: ["hearts", "spades", "clubs", "diamonds"],
+    dealt: 0,
+    createCardPicker: function() {
+        return function() {
+            let pickedCard = this.dealt++;
+            let pickedSuit = Math.floor(pickedCard / 13);
+
+            return {suit: this.suits[pickedSuit], card: pickedCard % 13};
+        }
+    }
+}
+
+let cardPicker = deck.createCardPicker();
+cardPicker();   // throws TypeError
+
+/**
+ * Notice that createCardPicker is a function that itself returns a function. If we tried to run the
+ * example, we would get an error instead of the expected card. This is because the this being used
+ * in the function created by createCardPicker will be set to undefined rather than our deck object.
+ * That’s because we call cardPicker() on its own. A top-level non-method syntax call like this will
+ * use undefined for this, as chapters are modules and modules are always in strict mode.
+ *
+ * We can fix this by making sure the function is bound to the correct this before we return the
+ * function to be used later. This way, regardless of how it’s later used, it will still be able to
+ * see the original deck object. To do this, we change the function expression to use the ECMAScript
+ * 6 arrow syntax. Arrow functions capture the this where the function is created rather than where
+ * it is invoked:
+ */
+{
+    let deck = {
+        suits: ["hearts", "spades", "clubs", "diamonds"],
+        dealt: 0,
+        createCardPicker: function() {
+            // NOTE: the line below is now an arrow function, allowing us to capture 'this' right here
+            return () => {
+                let pickedCard = this.dealt++;
+                let pickedSuit = Math.floor(pickedCard / 13);
+
+                return {suit: this.suits[pickedSuit], card: pickedCard % 13};
+            }
+        }
+    }
+
+    let cardPicker = deck.createCardPicker();
+    let pickedCard = cardPicker();
+
+    console.log("card: " + pickedCard.card + " of " + pickedCard.suit); // outputs "card: 0 of hearts"
+}
+
+/**
+ * Even better, TypeScript will warn you when you make this mistake if you pass the
+ * noImplicitThis flag to the compiler. It will point out that this in this.suits[pickedSuit] is of
+ * type any.
+ *
+ * ----------------
+ * this parameters
+ * ----------------
+ * Unfortunately, the type of this.suits[pickedSuit] is still any. That’s because this comes from
+ * the function expression inside the object literal. To fix this, you can provide an explicit this
+ * parameter. this parameters are fake parameters that come first in the parameter list of a
+ * function:
+ *
+ *      function f(this: void) {
+ *          // make sure `this` is unusable in this standalone function
+ *      }
+ *
+ * Let’s add a couple of interfaces to our example above, Card and Deck, to make the types clearer
+ * and easier to reuse:
+ */
+interface Card {
+    suit: string;
+    card: number;
+}
+
+interface Deck {
+    suits: string[];
+    dealt: number;
+    createCardPicker(this: Deck): () => Card;
+}
+
+let typedDeck: Deck = {
+    suits: ["hearts", "spades", "clubs", "diamonds"],
+    dealt: 14,
+    // NOTE: The function now explicitly specifies that its callee must be of type Deck
+    createCardPicker: function(this: Deck) {
+        return () => {
+            let pickedCard = this.dealt++;
+            let pickedSuit = Math.floor(pickedCard / 13);
+
+            return {suit: this.suits[pickedSuit], card: pickedCard % 13};
+        }
+    }
+}
+
+let typedCardPicker = typedDeck.createCardPicker();
+let pickedCard = typedCardPicker();
+
+console.log("card: " + pickedCard.card + " of " + pickedCard.suit); // outputs "card: 1 of spades"
+
+/**
+ * Now TypeScript knows that createCardPicker expects to be called on a Deck object. That means that
+ * this is of type Deck now, not any, so noImplicitThis will not cause any errors. It also means the
+ * compiler catches us calling createCardPicker without its deck:
+ */
+let createCardPicker = typedDeck.createCardPicker;
+createCardPicker(); // Error TS2684: 'this' context of type 'void' is not assignable to 'Deck'
+
+/**
+ * -----------------------------
+ * this parameters in callbacks
+ * -----------------------------
+ * You can also run into errors with this in callbacks, when you pass functions to a library that
+ * will later call them. Because the library that calls your callback will call it like a normal
+ * function, this will be undefined. With some work you can use this parameters to prevent errors
+ * with callbacks too. First, the library author needs to annotate the callback type with this:
+ */
+interface ClickEvent {
+    message: string;
+}
+
+interface UIElement {
+    addClickListener(onclick: (this: void, e: ClickEvent) => void): void;
+}
+
+/**
+ * this: void means that addClickListener expects onclick to be a function that does not require a
+ * this type. Here is a small element that keeps its listeners and calls them when clicked:
+ */
+class Button implements UIElement {
+    private listeners: ((this: void, e: ClickEvent) => void)[] = [];
+    addClickListener(onclick: (this: void, e: ClickEvent) => void) {
+        this.listeners.push(onclick);
+    }
+    click(message: string) {
+        this.listeners.forEach(listener => listener({ message }));
+    }
+}
+
+let uiElement = new Button();
+
+/**
+ * Second, annotate your calling code with this:
+ */
+class Handler {
+    info: string;
+    onClickBad(this: Handler, e: ClickEvent) {
+        // oops, used this here. using this callback would crash at runtime
+        this.info = e.message;
+    }
+}
+
+let h = new Handler();
+uiElement.addClickListener(h.onClickBad);   // Error TS2345: onClickBad needs a Handler for this
+
+/**
+ * With this annotated, you make it explicit that onClickBad must be called on an instance of
+ * Handler. Then TypeScript will detect that addClickListener requires a function that has
+ * this: void. To fix the error, change the type of this:
+ */
+{
+    class Handler {
+        info: string;
+        onClickGood(this: void, e: ClickEvent) {
+            // can't use this here because it's of type void!
+            console.log("clicked: " + e.message);
+        }
+    }
+
+    let h = new Handler();
+    uiElement.addClickListener(h.onClickGood);
+    uiElement.click("OK");  // outputs "clicked: OK"
+}
+
+/**
+ * Because onClickGood specifies its this type as void, it is legal to pass to addClickListener. Of
+ * course, this also means that it can’t use this.info. If you want both then you’ll have to use an
+ * arrow function:
+ */
+{
+    class Handler {
+        info: string;
+        onClickGood = (e: ClickEvent) => { this.info = e.message; }
+    }
+
+    let h = new Handler();
+    let button = new Button();
+    button.addClickListener(h.onClickGood);
+    button.click("Saved");
+
+    h.info; // returns Saved
+}
+
+/**
+ * This works because arrow functions use the outer this, so you can always pass them to something
+ * that expects this: void. The downside is that one arrow function is created per object of type
+ * Handler. Methods, on the other hand, are only created once and attached to Handler’s prototype.
+ * They are shared between all objects of type Handler.
+ */
\ No newline at end of file
@@ -0,0 +1,45 @@
+/**
+ * ------------------------------
+ * Generic Classes in TypeScript
+ * ------------------------------
+ * A generic class has a similar shape to a generic interface. Generic classes have a generic type
+ * parameter list in angle brackets (<>) following the name of the class.
+ */
+class GenericNumber<T> {
+    zeroValue: T;
+    add: (x: T, y: T) => T;
+}
+
+let myGenericNumber = new GenericNumber<number>();
+myGenericNumber.zeroValue = 0;
+myGenericNumber.add = function(x, y) { return x + y; };
+myGenericNumber.add(myGenericNumber.zeroValue, 5);  // returns 5
+
+/**
+ * This is a pretty literal use of the GenericNumber class, but you may have noticed that nothing
+ * is restricting it to only use the number type. We could have instead used string or even more
+ * complex objects.
+ */
+let stringNumeric = new GenericNumber<string>();
+stringNumeric.zeroValue = "";
+stringNumeric.add = function(x, y) { return x + y; };
+
+console.log(stringNumeric.add(stringNumeric.zeroValue, "test"));    // outputs test
+
+/**
+ * Just as with interface, putting the type parameter on the class itself lets us make sure all of
+ * the properties of the class are working with the same type.
+ */
+stringNumeric.add(stringNumeric.zeroValue, 5);  // Error TS2345: 5 is not a string
+
+/**
+ * As we covered in our section on classes, a class has two sides to its type: the static side and
+ * the instance side. Generic classes are only generic over their instance side rather than their
+ * static side, so when working with classes, static members can not use the class’s type parameter.
+ */
+{
+    class GenericNumber<T> {
+        static zeroValue: T;    // Error TS2302: Static members cannot reference class type parameters
+        add: (x: T, y: T) => T;
+    }
+}
\ No newline at end of file
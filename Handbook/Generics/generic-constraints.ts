@@ -0,0 +1,167 @@
+/**
+ * ----------------------------------
+ * Generic Constraints in TypeScript
+ * ----------------------------------
+ * If you remember from an earlier example, you may sometimes want to write a generic function that
+ * works on a set of types where you have some knowledge about what capabilities that set of types
+ * will have. In our loggingIdentity example, we wanted to be able to access the .length property of
+ * arg, but the compiler could not prove that every type had a .length property, so it warns us that
+ * we can’t make this assumption.
+ *
+ * Instead of working with any and all types, we’d like to constrain this function to work with any
+ * and all types that also have the .length property. As long as the type has this member, we’ll
+ * allow it, but it’s required to have at least this member. To do so, we must list our requirement
+ * as a constraint on what T can be.
+ *
+ * To do so, we’ll create an interface that describes our constraint. Here, we’ll create an
+ * interface that has a single .length property and then we’ll use this interface and the extends
+ * keyword to denote our constraint:
+ */
+interface Lengthwise {
+    length: number;
+}
+
+function loggingIdentity<T extends Lengthwise>(arg: T): T {
+    console.log(arg.length);    // Now we know it has a .length property, so no more error
+    return arg;
+}
+
+/**
+ * Because the generic function is now constrained, it will no longer work over any and all types:
+ */
+loggingIdentity(3); // Error TS2345: number doesn't have a .length property
+
+/**
+ * Instead, we need to pass in values whose type has all the required properties:
+ */
+loggingIdentity({length: 10, value: 3});    // outputs 10
+
+/**
+ * ---------------------------------------------
+ * Using Type Parameters in Generic Constraints
+ * ---------------------------------------------
+ * You can declare a type parameter that is constrained by another type parameter. For example,
+ * here we’d like to get a property from an object given its name. We’d like to ensure that we’re
+ * not accidentally grabbing a property that does not exist on the obj, so we’ll place a constraint
+ * between the two types, using keyof to name the union of obj’s property names:
+ */
+function getProperty<T, K extends keyof T>(obj: T, key: K) {
+    return obj[key];
+}
+
+let x = { a: 1, b: 2, c: 3, d: 4 };
+
+getProperty(x, "a");    // returns 1
+getProperty(x, "m");    // Error TS2345: Argument of type '"m"' isn't assignable to '"a" | "b" | "c" | "d"'
+
+/**
+ * ------------------------------
+ * Using Class Types in Generics
+ * ------------------------------
+ * When creating factories in TypeScript using generics, it is necessary to refer to class types by
+ * their constructor functions. For example,
+ */
+function create<T>(c: {new(): T; }): T {
+    return new c();
+}
+
+/**
+ * A more advanced example uses the prototype property to infer and constrain relationships between
+ * the constructor function and the instance side of class types.
+ */
+class BeeKeeper {
+    hasMask: boolean = true;
+}
+
+class ZooKeeper {
+    nametag: string = "Mikle";
+}
+
+class Animal {
+    numLegs: number;
+}
+
+class Bee extends Animal {
+    keeper: BeeKeeper = new BeeKeeper();
+}
+
+class Lion extends Animal {
+    keeper: ZooKeeper = new ZooKeeper();
+}
+
+function createInstance<A extends Animal>(c: new () => A): A {
+    return new c();
+}
+
+createInstance(Lion).keeper.nametag;    // returns Mikle
+createInstance(Bee).keeper.hasMask;     // returns true
+
+/**
+ * -------------------------------
+ * Generic constructor interfaces
+ * -------------------------------
+ * Class Types in Interfaces described the static side of a clock class with a ClockConstructor
+ * interface, and used it in a createClock factory. That factory always returns a ClockInterface,
+ * so whatever else the clock we asked for can do is lost:
+ */
+{
+    interface ClockConstructor {
+        new (hour: number, minute: number): ClockInterface;
+    }
+    interface ClockInterface {
+        tick();
+    }
+
+    function createClock(ctor: ClockConstructor, hour: number, minute: number): ClockInterface {
+        return new ctor(hour, minute);
+    }
+
+    class DigitalClock implements ClockInterface {
+        constructor(private h: number, private m: number) { }
+        tick() {
+            console.log("beep beep");
+        }
+        display() {
+            return this.h + ":" + (this.m < 10 ? "0" : "") + this.m;
+        }
+    }
+
+    let digital = createClock(DigitalClock, 12, 7);
+    digital.display();  // Error TS2339: Property 'display' does not exist on type 'ClockInterface'
+}
+
+/**
+ * Making ClockConstructor generic over the instance type it constructs, constrained to
+ * ClockInterface, lets createClock hand back exactly the type of clock it was given while still
+ * checking that the class has the right constructor signature and a tick method:
+ */
+interface ClockInterface {
+    tick();
+}
+
+interface ClockConstructor<T extends ClockInterface> {
+    new (hour: number, minute: number): T;
+}
+
+function createClock<T extends ClockInterface>(ctor: ClockConstructor<T>, hour: number, minute: number): T {
+    return new ctor(hour, minute);
+}
+
+class DigitalClock implements ClockInterface {
+    constructor(private h: number, private m: number) { }
+    tick() {
+        console.log("beep beep");
+    }
+    display() {
+        return this.h + ":" + (this.m < 10 ? "0" : "") + this.m;
+    }
+}
+
+let digital = createClock(DigitalClock, 12, 7);
+digital.tick();     // outputs "beep beep"
+digital.display();  // returns 12:07
+
+/**
+ * The constraint still rules out classes that aren’t clocks at all:
+ */
+createClock(Date, 12, 7);   // Error TS2345: 'Date' does not have a tick method
\ No newline at end of file
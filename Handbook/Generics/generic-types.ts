@@ -0,0 +1,109 @@
+/**
+ * ----------------------------
+ * Generic Types in TypeScript
+ * ----------------------------
+ * In the previous chapter, we created generic identity functions that worked over a range of types.
+ * In this section, we’ll explore the type of the functions themselves and how to create generic
+ * interfaces.
+ *
+ * The type of generic functions is just like those of non-generic functions, with the type
+ * parameters listed first, similarly to function declarations:
+ */
+function identity<T>(arg: T): T {
+    return arg;
+}
+
+let myIdentity: <T>(arg: T) => T = identity;
+
+/**
+ * We could also have used a different name for the generic type parameter in the type, so long as
+ * the number of type variables and how the type variables are used line up.
+ */
+{
+    let myIdentity: <U>(arg: U) => U = identity;
+}
+
+/**
+ * We can also write the generic type as a call signature of an object literal type:
+ */
+{
+    let myIdentity: {<T>(arg: T): T} = identity;
+}
+
+/**
+ * Which leads us to writing our first generic interface. Let’s take the object literal from the
+ * previous example and move it to an interface:
+ */
+interface GenericIdentityFn {
+    <T>(arg: T): T;
+}
+
+{
+    let myIdentity: GenericIdentityFn = identity;
+}
+
+/**
+ * In a similar example, we may want to move the generic parameter to be a parameter of the whole
+ * interface. This lets us see what type(s) we’re generic over (e.g. Dictionary<string> rather than
+ * just Dictionary). This makes the type parameter visible to all the other members of the
+ * interface.
+ */
+{
+    interface GenericIdentityFn<T> {
+        (arg: T): T;
+    }
+
+    let myIdentity: GenericIdentityFn<number> = identity;
+    myIdentity(42); // returns 42
+}
+
+/**
+ * Notice that our example has changed to be something slightly different. Instead of describing a
+ * generic function, we now have a non-generic function signature that is a part of a generic type.
+ * When we use GenericIdentityFn, we now will also need to specify the corresponding type argument
+ * (here: number), effectively locking in what the underlying call signature will use.
+ * Understanding when to put the type parameter directly on the call signature and when to put it
+ * on the interface itself will be helpful in describing what aspects of a type are generic.
+ *
+ * -----------------------------
+ * A generic function interface
+ * -----------------------------
+ * The SearchFunc interface from Interfaces describes searching a string for a substring. Nothing
+ * about the idea of a search is specific to strings, though, so we can move the type of what we
+ * search in, and of what we look for, to a type parameter of the interface:
+ */
+interface SearchFunc<T> {
+    (source: T, subString: T): boolean;
+}
+
+/**
+ * SearchFunc<string> is the function type we started with, and contextual typing works just as it
+ * did there: src and sub get their types from the SearchFunc<string> they are assigned to.
+ */
+let mySearch: SearchFunc<string> = function(src, sub) {
+    let result = src.search(sub);
+    return result > -1;
+}
+
+mySearch("Hello, world", "world");  // returns true
+
+/**
+ * The same interface describes a search for a run of numbers, which a string search could never
+ * do. Because the type parameter is on the interface, both arguments have to agree on it:
+ */
+let numberSearch: SearchFunc<ReadonlyArray<number>> = function(src, sub) {
+    for (let i = 0; i + sub.length <= src.length; i++) {
+        if (sub.every((value, j) => src[i + j] === value)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+numberSearch([1, 2, 3, 4], [2, 3]); // returns true
+numberSearch([1, 2, 3, 4], [3, 2]); // returns false
+numberSearch([1, 2, 3, 4], ["2", "3"]); // Error TS2322: strings are not numbers
+
+/**
+ * Note that it is not possible to create generic enums and namespaces.
+ */
\ No newline at end of file
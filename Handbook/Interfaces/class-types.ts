@@ -22,17 +22,19 @@ class Clock implements ClockInterface {
  * You can also describe methods in an interface that are implemented in the class, as we do 
  * with setTime in the below example:
  */
-interface ClockInterface1 {
-    currentTime: Date;
-    setTime(d: Date);
-}
+{
+    interface ClockInterface {
+        currentTime: Date;
+        setTime(d: Date);
+    }
 
-class Clock1 implements ClockInterface1 {
-    currentTime: Date;
-    setTime(d: Date) {
-        this.currentTime = d;
+    class Clock implements ClockInterface {
+        currentTime: Date;
+        setTime(d: Date) {
+            this.currentTime = d;
+        }
+        constructor(h: number, m: number) { }
     }
-    constructor(h: number, m: number) { }
 }
 
 /**
@@ -65,36 +67,42 @@ class Clock1 implements ClockInterface1 {
  * instance methods. Then for convenience we define a constructor function createClock that 
  * creates instances of the type that is passed to it.
  */
-interface ClockConstructor {
-    new (hour: number, minute: number): ClockInterface2;
-}
-interface ClockInterface2 {
-    tick();
-}
+{
+    interface ClockConstructor {
+        new (hour: number, minute: number): ClockInterface;
+    }
+    interface ClockInterface {
+        tick();
+    }
 
-function createClock(ctor: ClockConstructor, hour: number, minute: number): ClockInterface2 {
-    return new ctor(hour, minute);
-}
+    function createClock(ctor: ClockConstructor, hour: number, minute: number): ClockInterface {
+        return new ctor(hour, minute);
+    }
 
-class DigitalClock implements ClockInterface2 {
-    constructor(h: number, m: number) { }
-    tick() {
-        console.log("beep beep");
+    class DigitalClock implements ClockInterface {
+        constructor(h: number, m: number) { }
+        tick() {
+            console.log("beep beep");
+        }
     }
-}
-class AnalogClock implements ClockInterface2 {
-    constructor(h: number, m: number) { }
-    tick() {
-        console.log("tick tick");
+    class AnalogClock implements ClockInterface {
+        constructor(h: number, m: number) { }
+        tick() {
+            console.log("tick tick");
+        }
     }
-}
 
-let digital = createClock(DigitalClock, 12, 7);
-let analog = createClock(AnalogClock, 7, 32);
+    let digital = createClock(DigitalClock, 12, 7);
+    let analog = createClock(AnalogClock, 7, 32);
+}
 
 /**
  * Because createClock’s first parameter is of type ClockConstructor, in 
  * createClock(AnalogClock, 7, 32), it checks that AnalogClock has the correct constructor signature.
+ * These clocks ignore the time they are given and never tick on their own; A Clock With a Scheduler,
+ * in Projects, turns them into working clocks.
+ * Wiring Classes With a Container, also in Projects, generalizes createClock into a container
+ * that builds any class from what its constructor needs.
  * 
  * ---------------------
  * Extending Interfaces
@@ -131,3 +139,9 @@ let square1 = <Square>{};
 square1.color = "red";
 square1.sideLength = 10;
 square1.penWidth = 5.0;
+
+
+/**
+ * Drawing Shapes, in Projects, gives these interfaces classes that implement them and draws squares
+ * like this one as SVG.
+ */
\ No newline at end of file
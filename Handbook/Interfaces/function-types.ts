@@ -25,14 +25,25 @@ mySearch = function(source: string, subString: string) {
     return result > -1;
 }
 
+mySearch("Hello, world", "world");  // returns true
+
+/**
+ * search treats subString as a regular expression, so a subString like "+" is not looked for as it 
+ * is written, and this search throws. Searching Strings, in Projects, writes SearchFuncs that match 
+ * substrings literally.
+ */
+mySearch("a+b", "+");   // throws SyntaxError
+
 /**
  * For function types to correctly type-check, the names of the parameters do not need to match. 
  * We could have, for example, written the above example like this:
  */
-let mySearch1: SearchFunc;
-mySearch1 = function(src: string, sub: string): boolean {
-    let result = src.search(sub);
-    return result > -1;
+{
+    let mySearch: SearchFunc;
+    mySearch = function(src: string, sub: string): boolean {
+        let result = src.search(sub);
+        return result > -1;
+    }
 }
 
 /**
@@ -44,8 +55,10 @@ mySearch1 = function(src: string, sub: string): boolean {
  * or strings, the type-checker would have warned us that return type doesn’t match the return type 
  * described in the SearchFunc interface.
  */
-let mySearch2: SearchFunc;
-mySearch2 = function(src, sub) {
-    let result = src.search(sub);
-    return result > -1;
+{
+    let mySearch: SearchFunc;
+    mySearch = function(src, sub) {
+        let result = src.search(sub);
+        return result > -1;
+    }
 }
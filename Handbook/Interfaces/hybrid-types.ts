@@ -29,4 +29,8 @@ c.interval = 5.0;
 /**
  * When interacting with 3rd-party JavaScript, you may need to use patterns like the above to fully 
  * describe the shape of the type.
+ * 
+ * The counter above does nothing when it is called. Metrics With a Hybrid Type, in Projects, builds 
+ * working counters, gauges and histograms in the same shape.
+ * Typed Events, also in Projects, uses the shape for an event emitter that is called to emit.
  */
\ No newline at end of file
@@ -34,9 +34,9 @@ class Dog extends Animal {
     breed: string;
 }
 
-// Error: indexing with a numeric string might get you a completely separate type of Animal!
+// Error TS2413: indexing with a numeric string might get you a completely separate type of Animal!
 interface NotOkay {
-    // [x: number]: Animal;
+    [x: number]: Animal;
     [x: string]: Dog;
 }
 
@@ -49,7 +49,7 @@ interface NotOkay {
 interface NumberDictionary {
     [index: string]: number;
     length: number; // ok, length is a number
-    // name: string;   // error, the type of 'name' is not a subtype of the indexer
+    name: string;   // Error TS2411: Property 'name' of type 'string' is not assignable to 'string' index type 'number'.
 }
 
 /**
@@ -59,5 +59,12 @@ interface NumberDictionary {
 interface ReadonlyStringArray {
     readonly [index: number]: string;
 }
-let myArray1: ReadonlyStringArray = ["Alice", "Bob"];
-// myArray1[2] = "Mallory";    // error
+{
+    let myArray: ReadonlyStringArray = ["Alice", "Bob"];
+    myArray[2] = "Mallory";    // Error TS2542: Index signature in type 'ReadonlyStringArray' only permits reading.
+}
+
+/**
+ * Persistent Collections, in Projects, hands out frozen arrays and objects that fit these index
+ * signatures, from lists and maps that are never changed in place.
+ */
@@ -28,12 +28,14 @@ interface LabelledValue {
     label: string;
 }
 
-function printLabel1(labelledObj: LabelledValue) {
-    console.log(labelledObj.label);
-}
+{
+    function printLabel(labelledObj: LabelledValue) {
+        console.log(labelledObj.label);
+    }
 
-let myObj1 = { size: 10, label: "Size 10 Object" };
-printLabel1(myObj1);
+    let myObj = { size: 10, label: "Size 10 Object" };
+    printLabel(myObj);
+}
 
 /**
  * The interface LabelledValue is a name we can now use to describe the requirement in the previous 
@@ -96,7 +98,7 @@ interface Point {
  * changed.
  */
 let p1: Point = { x: 10, y: 20 };
-// p1.x = 5;   // Error!
+p1.x = 5;   // Error TS2540: Cannot assign to 'x' because it is a read-only property.
 
 /**
  * TypeScript comes with a ReadonlyArray<T> type that is the same as Array<T> with all mutating 
@@ -104,10 +106,10 @@ let p1: Point = { x: 10, y: 20 };
  */
 let d: number[] = [1, 2, 3, 4];
 let ro: ReadonlyArray<number> = d;
-// ro[0] = 12; // Error!
-// ro.push(5); // Error!
-// ro.length = 100;    // Error!
-// d = ro; // Error!
+ro[0] = 12; // Error TS2542: Index signature in type 'readonly number[]' only permits reading.
+ro.push(5); // Error TS2339: Property 'push' does not exist on type 'readonly number[]'.
+ro.length = 100;    // Error TS2540: Cannot assign to 'length' because it is a read-only property.
+d = ro; // Error TS4104: The type 'readonly number[]' is 'readonly' and cannot be assigned to the mutable type 'number[]'.
 
 /**
  * On the last line of the snippet you can see that even assigning the entire ReadonlyArray back to 
@@ -116,6 +118,9 @@ let ro: ReadonlyArray<number> = d;
 d = ro as number[];
 
 /**
+ * Persistent Collections, in Projects, builds lists, maps and sets that can’t be changed even
+ * after an assertion like this one.
+ * 
  * ------------------
  * readonly vs const
  * ------------------
@@ -190,6 +195,10 @@ interface SquareConfig {
  * to pass an object with both a color or colour property to createSquare, you should fix up the 
  * definition of SquareConfig to reflect that.
  * 
+ * None of these checks can see objects that only exist at runtime, such as options parsed from 
+ * JSON. Checking Data at Runtime, in Projects, checks those against a description of SquareConfig 
+ * from which the interface itself is derived.
+ * 
  * -----------------------------
  * Interfaces Extending Classes
  * -----------------------------
@@ -219,12 +228,12 @@ class TextBox extends Control {
     select() { }
 }
 
-// Error: Property 'state' is missing in type 'Image'
-/*class Image implements SelectableControl {
+// Error TS2420: Property 'state' is missing in type 'Image'
+class Image implements SelectableControl {
     select() { }
-}*/
+}
 
-class Location1 {
+class Location {
 
 }
 
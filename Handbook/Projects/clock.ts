@@ -0,0 +1,303 @@
+/**
+ * -------------------------
+ * A Clock With a Scheduler
+ * -------------------------
+ * Class Types in Interfaces built two clocks behind a ClockConstructor and a createClock factory,
+ * but its clocks ignore the time they are created with, and nothing ever calls tick(). This chapter
+ * turns them into working clocks: each keeps the time it was constructed with, and a scheduler
+ * calls tick() once a minute.
+ *
+ * A scheduler that calls setTimeout directly can only be watched in real time. Instead, it asks a
+ * time source for the current time and for timers, so the same scheduler can run against the real
+ * clock or against a virtual one that we advance by hand.
+ *
+ * -------------
+ * Time sources
+ * -------------
+ * A time source tells the time in milliseconds and runs a callback after a delay. Scheduling returns
+ * a function that cancels the callback, so callers never need to know what a timer handle is.
+ */
+interface TimeSource {
+    now(): number;
+    schedule(callback: () => void, delay: number): () => void;
+}
+
+/**
+ * The real time source is a thin wrapper around Date.now and setTimeout:
+ */
+const realTime: TimeSource = {
+    now: () => Date.now(),
+    schedule(callback, delay) {
+        const handle = setTimeout(callback, delay);
+        return () => clearTimeout(handle);
+    }
+};
+
+/**
+ * The virtual time source only moves when it is told to. advance() runs every timer that falls due
+ * on the way, in order, and moves the time to each timer before running it, so callbacks that read
+ * now() or schedule more timers behave exactly as they would in real time. Timers due at the same
+ * moment run in the order they were scheduled.
+ */
+class VirtualTime implements TimeSource {
+    private timers: { due: number; order: number; callback: () => void }[] = [];
+    private scheduled = 0;
+
+    constructor(private current = 0) { }
+
+    now() {
+        return this.current;
+    }
+
+    schedule(callback: () => void, delay: number) {
+        const timer = { due: this.current + Math.max(0, delay), order: this.scheduled++, callback };
+        this.timers.push(timer);
+        return () => {
+            this.timers = this.timers.filter(t => t !== timer);
+        };
+    }
+
+    advance(milliseconds: number) {
+        const end = this.current + milliseconds;
+        for (let timer = this.next(end); timer; timer = this.next(end)) {
+            this.timers = this.timers.filter(t => t !== timer);
+            this.current = timer.due;
+            timer.callback();
+        }
+        this.current = end;
+    }
+
+    /** The earliest timer due no later than `end`. */
+    private next(end: number) {
+        let next: { due: number; order: number; callback: () => void } | undefined;
+        for (const timer of this.timers) {
+            if (timer.due <= end && (!next || timer.due < next.due || (timer.due === next.due && timer.order < next.order))) {
+                next = timer;
+            }
+        }
+        return next;
+    }
+}
+
+let virtualTime = new VirtualTime();
+virtualTime.schedule(() => console.log("second"), 20);
+virtualTime.schedule(() => console.log("first"), 10);
+virtualTime.advance(15);    // outputs first
+virtualTime.now();  // returns 15
+virtualTime.advance(15);    // outputs second
+
+/**
+ * --------------------------
+ * Clocks that keep the time
+ * --------------------------
+ * The interfaces are the ones from Class Types in Interfaces. ClockInterface gains a way to read the
+ * time, and each clock now keeps the hour and minute it was created with, moving on a minute with
+ * every tick.
+ */
+const MINUTES_PER_DAY = 24 * 60;
+
+interface ClockConstructor {
+    new (hour: number, minute: number): ClockInterface;
+}
+interface ClockInterface {
+    tick(): void;
+    readonly time: string;
+}
+
+function createClock(ctor: ClockConstructor, hour: number, minute: number): ClockInterface {
+    return new ctor(hour, minute);
+}
+
+/**
+ * Both clocks count minutes since midnight, so the base class keeps that count and the two clocks
+ * only differ in how they show it.
+ */
+abstract class MinuteClock implements ClockInterface {
+    protected minutes: number;
+
+    constructor(h: number, m: number) {
+        if (!Number.isInteger(h) || !Number.isInteger(m) || h < 0 || h > 23 || m < 0 || m > 59) {
+            throw new RangeError(`${ h }:${ m } is not a time of day`);
+        }
+        this.minutes = h * 60 + m;
+    }
+
+    get time() {
+        const hour = Math.floor(this.minutes / 60);
+        const minute = this.minutes % 60;
+        return hour + ":" + (minute < 10 ? "0" : "") + minute;
+    }
+
+    tick() {
+        this.minutes = (this.minutes + 1) % MINUTES_PER_DAY;
+        this.announce();
+    }
+
+    protected abstract announce(): void;
+}
+
+class DigitalClock extends MinuteClock {
+    protected announce() {
+        console.log(`${ this.time } beep beep`);
+    }
+}
+
+/**
+ * The analog clock also knows where its hands point, in degrees clockwise from twelve:
+ */
+class AnalogClock extends MinuteClock {
+    get hands() {
+        const minute = this.minutes % 60;
+        const hour = Math.floor(this.minutes / 60) % 12;
+        return { hour: hour * 30 + minute / 2, minute: minute * 6 };
+    }
+
+    protected announce() {
+        console.log(`${ this.time } tick tock`);
+    }
+}
+
+let digital = createClock(DigitalClock, 12, 7);
+let analog = new AnalogClock(7, 32);
+
+digital.time;   // returns 12:07
+analog.hands;   // returns { hour: 226, minute: 192 }
+digital.tick(); // outputs "12:08 beep beep"
+createClock(DigitalClock, 25, 0);   // throws RangeError
+createClock(DigitalClock, 9.5, 30.25);  // throws RangeError
+createClock(DigitalClock, NaN, 0);  // throws RangeError
+
+/**
+ * --------------
+ * The scheduler
+ * --------------
+ * The scheduler ticks all of its clocks once per interval. Timers only promise not to fire early,
+ * so rather than always waiting a full interval, which would let every late timer push the next
+ * one back, it works out when the next tick is due from when it started.
+ */
+class ClockScheduler {
+    private clocks: ClockInterface[] = [];
+    private started: number | undefined;
+    private ticks = 0;
+    private cancel: (() => void) | undefined;
+
+    /** An interval that isn't positive would have the scheduler tick forever without time passing. */
+    constructor(private timeSource: TimeSource, private interval = 60 * 1000) {
+        if (!(interval > 0)) {
+            throw new RangeError(`A scheduler can't tick every ${ interval } milliseconds`);
+        }
+    }
+
+    add(clock: ClockInterface) {
+        this.clocks.push(clock);
+    }
+
+    start() {
+        if (this.started === undefined) {
+            this.started = this.timeSource.now();
+            this.ticks = 0;
+            this.scheduleNext();
+        }
+    }
+
+    stop() {
+        if (this.cancel) {
+            this.cancel();
+        }
+        this.started = this.cancel = undefined;
+    }
+
+    /**
+     * A clock may stop the scheduler while it ticks, or stop and start it again, which has already
+     * scheduled the next tick. Either way the timer that fired is no longer the current one, and
+     * there is nothing more for it to schedule.
+     */
+    private scheduleNext() {
+        const due = this.started + (this.ticks + 1) * this.interval;
+        const cancel = this.timeSource.schedule(() => {
+            this.ticks++;
+            this.clocks.forEach(clock => clock.tick());
+            if (this.cancel === cancel) {
+                this.scheduleNext();
+            }
+        }, due - this.timeSource.now());
+        this.cancel = cancel;
+    }
+}
+
+/**
+ * With a virtual time source, three minutes pass as quickly as we like, and always the same way:
+ */
+let time = new VirtualTime();
+let scheduler = new ClockScheduler(time);
+
+scheduler.add(createClock(DigitalClock, 12, 7));
+scheduler.add(createClock(AnalogClock, 7, 32));
+scheduler.start();
+
+time.advance(59 * 1000);    // outputs ""
+time.advance(1000); // outputs "12:08 beep beep 7:33 tick tock"
+time.advance(2 * 60 * 1000);    // outputs "12:09 beep beep 7:34 tick tock 12:10 beep beep 7:35 tick tock"
+
+scheduler.stop();
+time.advance(60 * 60 * 1000);   // outputs ""
+new ClockScheduler(time, 0);    // throws RangeError
+new ClockScheduler(time, NaN);  // throws RangeError
+
+/**
+ * Clocks keep going past midnight:
+ */
+{
+    let time = new VirtualTime();
+    let scheduler = new ClockScheduler(time);
+    let clock = createClock(DigitalClock, 23, 59);
+
+    scheduler.add(clock);
+    scheduler.start();
+    time.advance(60 * 1000);    // outputs "0:00 beep beep"
+}
+
+/**
+ * The same scheduler runs in real time just by being given the real time source. Here, with an
+ * interval of 10 milliseconds, the clock ticks three times before it is stopped:
+ */
+{
+    let scheduler = new ClockScheduler(realTime, 10);
+    scheduler.add(createClock(AnalogClock, 9, 0));
+    scheduler.start();  // outputs "9:01 tick tock 9:02 tick tock 9:03 tick tock"
+    realTime.schedule(() => scheduler.stop(), 35);
+}
+
+/**
+ * A clock can also stop the scheduler from its own tick, and that tick is the last:
+ */
+{
+    let scheduler = new ClockScheduler(realTime, 10);
+    scheduler.add({ time: "", tick: () => { console.log("last tick"); scheduler.stop(); } });
+    scheduler.start();  // outputs "last tick"
+}
+
+/**
+ * If the clock stops the scheduler and starts it again, the restarted scheduler counts its ticks
+ * from then, and the clock still ticks once per interval:
+ */
+{
+    let time = new VirtualTime();
+    let scheduler = new ClockScheduler(time, 1000);
+    let restarted = false;
+    scheduler.add({
+        time: "",
+        tick: () => {
+            console.log(`tick at ${ time.now() }`);
+            if (!restarted) {
+                restarted = true;
+                scheduler.stop();
+                scheduler.start();
+            }
+        }
+    });
+    scheduler.start();
+    time.advance(3000); // outputs "tick at 1000 tick at 2000 tick at 3000"
+    scheduler.stop();
+    time.advance(3000); // outputs ""
+}
@@ -0,0 +1,466 @@
+/**
+ * -----------------------
+ * Persistent Collections
+ * -----------------------
+ * Readonly Properties, in Interfaces, ends with ro as number[]: a type assertion turns the
+ * ReadonlyArray back into an array, and from then on anyone can change it. ReadonlyStringArray, in
+ * Indexable Types, only stops assignment through that one type, too. Readonly there is a promise
+ * the compiler keeps, not something the array itself knows about.
+ *
+ * This chapter builds collections that can’t be changed at all: a List, a HashMap and a HashSet.
+ * Changing one gives back a new version and leaves the old one as it was. Copying everything for
+ * every change would be slow, so a new version shares almost all of its structure with the one it
+ * came from, and only copies the few small pieces on the way to what changed. Collections that
+ * work this way are called persistent.
+ *
+ * ------
+ * Tries
+ * ------
+ * Both the List and the HashMap are tries: trees whose nodes have up to 32 children, where five bits
+ * of a number pick the child at each level. Thirty-two children per node keep the trees shallow:
+ * three levels hold 32768 values, and seven hold more than any array could. Changing a value copies
+ * the one node on each level that leads to it, and shares all the others.
+ *
+ * Every node is frozen, and so is every collection, so that not even an assertion to some other type
+ * lets anything inside be changed.
+ */
+const BITS = 5;
+const WIDTH = 1 << BITS;
+const MASK = WIDTH - 1;
+
+/**
+ * -----
+ * List
+ * -----
+ * The list’s values are kept in order in the leaves. The index of a value, five bits at a time,
+ * says which child to follow on each level, from the root down.
+ */
+type ListNode<T> = ReadonlyArray<T | ListNode<T>>;
+
+class List<T> implements Iterable<T> {
+    private constructor (private readonly root: ListNode<T>, private readonly shift: number, readonly size: number) {
+        Object.freeze(this);
+    }
+
+    static empty<T>(): List<T> {
+        return new List<T>(Object.freeze([]), 0, 0);
+    }
+
+    static of<T>(...values: T[]): List<T> {
+        return List.from(values);
+    }
+
+    /** Takes anything that can be iterated, or anything with numbered elements and a length. */
+    static from<T>(values: Iterable<T> | ArrayLike<T>): List<T> {
+        return Array.from(values).reduce((list, value) => list.push(value), List.empty<T>());
+    }
+
+    get(index: number): T | undefined {
+        if (index < 0 || index >= this.size || index % 1 !== 0) {
+            return undefined;
+        }
+        let node = this.root;
+        for (let shift = this.shift; shift > 0; shift -= BITS) {
+            node = node[(index >>> shift) & MASK] as ListNode<T>;
+        }
+        return node[index & MASK] as T;
+    }
+
+    /** Setting the index just past the end pushes the value. */
+    set(index: number, value: T): List<T> {
+        if (index === this.size) {
+            return this.push(value);
+        }
+        if (index < 0 || index > this.size || index % 1 !== 0) {
+            throw new RangeError(`Index ${ index } is outside a list of ${ this.size }`);
+        }
+        return new List(setIn(this.root, this.shift, index, value), this.shift, this.size);
+    }
+
+    /** When the trie is full, a new root is added above it, with the old root as its first child. */
+    push(value: T): List<T> {
+        if (this.size === Math.pow(WIDTH, this.shift / BITS + 1)) {
+            const root = Object.freeze([this.root, path(this.shift, value)]);
+            return new List(root, this.shift + BITS, this.size + 1);
+        }
+        return new List(setIn(this.root, this.shift, this.size, value), this.shift, this.size + 1);
+    }
+
+    *[Symbol.iterator](): Iterator<T> {
+        for (let i = 0; i < this.size; i++) {
+            yield this.get(i) as T;
+        }
+    }
+
+    /** A frozen copy, for code that expects an array or a numeric index signature. */
+    toArray(): ReadonlyArray<T> {
+        return Object.freeze(Array.from(this));
+    }
+
+    /** How many of the nodes of `after` are shared with `before`, and how many are its own. */
+    static sharing(before: List<unknown>, after: List<unknown>): { shared: number; copied: number } {
+        const nodes = (list: List<unknown>) => {
+            const found = new Set<ListNode<unknown>>();
+            const visit = (node: ListNode<unknown>, shift: number) => {
+                found.add(node);
+                if (shift > 0) {
+                    node.forEach(child => visit(child as ListNode<unknown>, shift - BITS));
+                }
+            };
+            visit(list.root, list.shift);
+            return found;
+        };
+        const old = nodes(before);
+        const all = Array.from(nodes(after));
+        const shared = all.filter(node => old.has(node)).length;
+        return { shared, copied: all.length - shared };
+    }
+}
+
+/** A copy of `node` with the value at `index` set, copying only the nodes on the way to it. */
+function setIn<T>(node: ListNode<T>, shift: number, index: number, value: T): ListNode<T> {
+    const slot = (index >>> shift) & MASK;
+    const copy = node.slice();
+    if (shift === 0) {
+        copy[slot] = value;
+    }
+    else {
+        const child = node[slot] as ListNode<T> | undefined;
+        copy[slot] = child ? setIn(child, shift - BITS, index, value) : path(shift - BITS, value);
+    }
+    return Object.freeze(copy);
+}
+
+/** A new branch leading down to a single value. */
+function path<T>(shift: number, value: T): ListNode<T> {
+    return Object.freeze(shift === 0 ? [value] : [path(shift - BITS, value)]);
+}
+
+let numbers = List.of(1, 2, 3);
+let more = numbers.push(4);
+let changed = more.set(0, 100);
+
+numbers.size;   // returns 3
+more.toArray(); // returns [1, 2, 3, 4]
+changed.toArray();  // returns [100, 2, 3, 4]
+more.get(0);    // returns 1
+more.get(10);   // returns undefined
+more.set(10, 5);    // throws RangeError
+
+/**
+ * A long list shows the sharing. After setting one value in a list of ten thousand, the new list
+ * shares all of its 324 nodes with the old one but three: the leaf holding the value, the node above
+ * it, and the root.
+ */
+let long = List.from(Array.from({ length: 10000 }, (_, i) => i));
+let longer = long.set(5000, -1);
+
+List.sharing(long, longer); // returns { shared: 321, copied: 3 }
+long.get(5000); // returns 5000
+longer.get(5000);   // returns -1
+longer.get(9999);   // returns 9999
+
+/**
+ * -----------------------
+ * No way back to mutable
+ * -----------------------
+ * A List isn’t an array, so asserting that it is one doesn’t compile. Forcing the assertion through
+ * unknown compiles, but doesn’t help: the list is frozen, and has no elements to change anyway.
+ * Even the arrays that toArray hands out are frozen copies, so asserting them to a mutable array,
+ * as Readonly Properties did, gets nowhere either:
+ */
+let ro = List.of(1, 2, 3, 4);
+
+ro as number[]; // Error TS2352: Conversion of type 'List<number>' to type 'number[]' may be a mistake because neither type sufficiently overlaps with the other. If this was intentional, convert the expression to 'unknown' first.
+
+(ro as unknown as number[])[0] = 12;    // throws TypeError
+(ro.toArray() as number[]).push(5); // throws TypeError
+(ro.toArray() as number[])[0] = 12; // throws TypeError
+ro.toArray();   // returns [1, 2, 3, 4]
+
+/**
+ * The frozen arrays fit the index signatures of Indexable Types as they are, and a List can be made
+ * from anything with numbered elements and a length:
+ */
+interface ReadonlyStringArray {
+    readonly [index: number]: string;
+}
+
+let names: ReadonlyStringArray = List.of("Alice", "Bob").toArray();
+names[0];   // returns Alice
+names[2] = "Mallory";   // Error TS2542: Index signature in type 'ReadonlyStringArray' only permits reading.
+
+List.from({ length: 2, 0: "Bob", 1: "Fred" }).push("Mallory").toArray();    // returns ['Bob', 'Fred', 'Mallory']
+
+/**
+ * --------
+ * HashMap
+ * --------
+ * A map can’t use its keys as indexes the way a list can, so it hashes them: each key is turned
+ * into a 32-bit number, and those bits pick the path through the trie. A branch has a slot for
+ * each of its 32 children, and a leaf holds the entries whose keys have the same hash. Different
+ * keys seldom share a hash, but they can, so a leaf holds a list of entries rather than just one.
+ *
+ * Keys are strings or numbers, compared the way Map and Set compare them: 1 and "1" are different
+ * keys, 0 and -0 are the same one, and NaN, which isn’t === to itself, is still a key like any other.
+ */
+type Key = string | number;
+
+function sameKey(a: Key, b: Key): boolean {
+    return a === b || (a !== a && b !== b);
+}
+
+interface Entry<K, V> {
+    readonly key: K;
+    readonly value: V;
+}
+
+type MapNode<K, V> =
+    | { readonly kind: "branch"; readonly children: ReadonlyArray<MapNode<K, V> | undefined> }
+    | { readonly kind: "leaf"; readonly hash: number; readonly entries: ReadonlyArray<Entry<K, V>> };
+
+/** The hash Java uses for strings, which is quick, and good enough to spread keys over the trie. */
+function hash(key: Key): number {
+    const text = typeof key + ":" + key;
+    let h = 0;
+    for (let i = 0; i < text.length; i++) {
+        h = Math.imul(31, h) + text.charCodeAt(i) | 0;
+    }
+    return h;
+}
+
+function leaf<K, V>(hash: number, entries: Entry<K, V>[]): MapNode<K, V> {
+    return Object.freeze({ kind: "leaf" as "leaf", hash, entries: Object.freeze(entries) });
+}
+
+function branch<K, V>(children: (MapNode<K, V> | undefined)[]): MapNode<K, V> {
+    return Object.freeze({ kind: "branch" as "branch", children: Object.freeze(children) });
+}
+
+/**
+ * Putting an entry where a leaf with another hash already is turns that slot into a branch, and
+ * sends both down a level, where the next five bits of each hash tell them apart.
+ */
+function put<K extends Key, V>(node: MapNode<K, V> | undefined, shift: number, h: number, entry: Entry<K, V>): MapNode<K, V> {
+    if (!node) {
+        return leaf(h, [entry]);
+    }
+    if (node.kind === "leaf") {
+        if (node.hash === h) {
+            return leaf(h, node.entries.filter(e => !sameKey(e.key, entry.key)).concat(entry));
+        }
+        const children: (MapNode<K, V> | undefined)[] = new Array(WIDTH);
+        children[(node.hash >>> shift) & MASK] = node;
+        return put(branch(children), shift, h, entry);
+    }
+    const slot = (h >>> shift) & MASK;
+    const children = node.children.slice();
+    children[slot] = put(node.children[slot], shift + BITS, h, entry);
+    return branch(children);
+}
+
+/** Removing the last entry from a leaf removes the leaf, and a branch left with one leaf becomes it. */
+function remove<K extends Key, V>(node: MapNode<K, V> | undefined, shift: number, h: number, key: K): MapNode<K, V> | undefined {
+    if (!node) {
+        return undefined;
+    }
+    if (node.kind === "leaf") {
+        const entries = node.entries.filter(e => !sameKey(e.key, key));
+        return entries.length === 0 ? undefined : leaf(h, entries);
+    }
+    const slot = (h >>> shift) & MASK;
+    const children = node.children.slice();
+    children[slot] = remove(node.children[slot], shift + BITS, h, key);
+
+    const left = children.filter(child => child !== undefined) as MapNode<K, V>[];
+    if (left.length === 0) {
+        return undefined;
+    }
+    return left.length === 1 && left[0].kind === "leaf" ? left[0] : branch(children);
+}
+
+function find<K extends Key, V>(node: MapNode<K, V> | undefined, shift: number, h: number, key: K): Entry<K, V> | undefined {
+    for (; node; shift += BITS) {
+        if (node.kind === "leaf") {
+            return node.hash === h ? node.entries.filter(e => sameKey(e.key, key))[0] : undefined;
+        }
+        node = node.children[(h >>> shift) & MASK];
+    }
+    return undefined;
+}
+
+/**
+ * The map is the root of its trie and the number of entries in it. Entries come out in the order
+ * of the trie: by the lowest five bits of their hashes, then by the next five, and so on, which has
+ * nothing to do with the order they were put in.
+ */
+class HashMap<K extends Key, V> implements Iterable<[K, V]> {
+    private constructor (private readonly root: MapNode<K, V> | undefined, readonly size: number) {
+        Object.freeze(this);
+    }
+
+    static empty<K extends Key, V>(): HashMap<K, V> {
+        return new HashMap<K, V>(undefined, 0);
+    }
+
+    /** A map with the properties of an object, such as one with a string index signature. */
+    static fromObject<V>(object: { readonly [key: string]: V }): HashMap<string, V> {
+        return Object.keys(object).reduce((map, key) => map.set(key, object[key]), HashMap.empty<string, V>());
+    }
+
+    get(key: K): V | undefined {
+        const entry = find(this.root, 0, hash(key), key);
+        return entry && entry.value;
+    }
+
+    has(key: K): boolean {
+        return find(this.root, 0, hash(key), key) !== undefined;
+    }
+
+    set(key: K, value: V): HashMap<K, V> {
+        const h = hash(key);
+        const size = this.has(key) ? this.size : this.size + 1;
+        return new HashMap(put(this.root, 0, h, Object.freeze({ key, value })), size);
+    }
+
+    delete(key: K): HashMap<K, V> {
+        return this.has(key) ? new HashMap(remove(this.root, 0, hash(key), key), this.size - 1) : this;
+    }
+
+    *[Symbol.iterator](): Iterator<[K, V]> {
+        const stack = this.root ? [this.root] : [];
+        while (stack.length > 0) {
+            const node = stack.pop()!;
+            if (node.kind === "leaf") {
+                yield* node.entries.map((entry): [K, V] => [entry.key, entry.value]);
+            }
+            else {
+                stack.push(...node.children.filter(child => child !== undefined).reverse() as MapNode<K, V>[]);
+            }
+        }
+    }
+
+    keys(): K[] {
+        return Array.from(this, ([key]) => key);
+    }
+
+    /** A frozen object, with a string index signature; only for maps whose keys are strings. */
+    toObject(this: HashMap<string, V>): { readonly [key: string]: V } {
+        const object: { [key: string]: V } = {};
+        for (const [key, value] of this) {
+            object[key] = value;
+        }
+        return Object.freeze(object);
+    }
+}
+
+let ages = HashMap.empty<string, number>().set("daniel", 25).set("mary", 31);
+let older = ages.set("daniel", 26);
+
+ages.get("daniel"); // returns 25
+older.get("daniel");    // returns 26
+older.size; // returns 2
+older.delete("mary").has("mary");   // returns false
+older.has("mary");  // returns true
+ages.set("john", "unknown");    // Error TS2345: Argument of type 'string' is not assignable to parameter of type 'number'.
+
+/**
+ * Some keys do share a hash: in Java, "Aa" and "BB" have the same hash, and they do here too. Both
+ * end up in one leaf, and each is still found by comparing the keys themselves:
+ */
+hash("Aa") === hash("BB");  // returns true
+
+let colliding = HashMap.empty<string, number>().set("Aa", 1).set("BB", 2);
+
+colliding.get("Aa");    // returns 1
+colliding.get("BB");    // returns 2
+colliding.delete("Aa").get("BB");   // returns 2
+
+/**
+ * Setting NaN twice makes one entry, and it can be found again:
+ */
+let readings = HashMap.empty<number, string>().set(NaN, "no reading").set(NaN, "still none");
+
+readings.size;  // returns 1
+readings.get(NaN);  // returns 'still none'
+readings.delete(NaN).size;  // returns 0
+
+/**
+ * Maps convert to and from objects with string index signatures, such as the dictionaries of
+ * Indexable Types. The object a map gives back is frozen, like the arrays of a List:
+ */
+interface NumberDictionary {
+    [index: string]: number;
+}
+
+let dictionary: NumberDictionary = { width: 10, height: 20 };
+let sizes = HashMap.fromObject(dictionary).set("depth", 5);
+
+sizes.keys().sort();    // returns ['depth', 'height', 'width']
+(sizes.toObject() as NumberDictionary)["width"] = 0;    // throws TypeError
+HashMap.empty<number, string>().set(1, "one").toObject();    // Error TS2684: The 'this' context of type 'HashMap<number, string>' is not assignable to method's 'this' of type 'HashMap<string, string>'.
+
+/**
+ * A map of ten thousand entries is only a few levels deep, and changing it leaves the old version
+ * whole:
+ */
+let big = Array.from({ length: 10000 }, (_, i) => i).reduce((map, i) => map.set(`key ${ i }`, i), HashMap.empty<string, number>());
+let bigger = big.set("key 123", -1).delete("key 456");
+
+[big.size, bigger.size];    // returns [10000, 9999]
+[big.get("key 123"), bigger.get("key 123")];    // returns [123, -1]
+[big.has("key 456"), bigger.has("key 456")];    // returns [true, false]
+
+/**
+ * --------
+ * HashSet
+ * --------
+ * A set is a map whose values don’t matter, so HashSet keeps a HashMap and only ever looks at its
+ * keys:
+ */
+class HashSet<T extends Key> implements Iterable<T> {
+    private constructor (private readonly map: HashMap<T, true>) {
+        Object.freeze(this);
+    }
+
+    static of<T extends Key>(...values: T[]): HashSet<T> {
+        return new HashSet(values.reduce((map, value) => map.set(value, true), HashMap.empty<T, true>()));
+    }
+
+    get size(): number {
+        return this.map.size;
+    }
+
+    has(value: T): boolean {
+        return this.map.has(value);
+    }
+
+    add(value: T): HashSet<T> {
+        return this.has(value) ? this : new HashSet(this.map.set(value, true));
+    }
+
+    delete(value: T): HashSet<T> {
+        return this.has(value) ? new HashSet(this.map.delete(value)) : this;
+    }
+
+    union(other: HashSet<T>): HashSet<T> {
+        let union: HashSet<T> = this;
+        for (const value of other) {
+            union = union.add(value);
+        }
+        return union;
+    }
+
+    *[Symbol.iterator](): Iterator<T> {
+        yield* this.map.keys();
+    }
+}
+
+let primary = HashSet.of<string>("red", "green", "blue");
+let withYellow = primary.add("yellow");
+
+primary.has("yellow");  // returns false
+withYellow.has("yellow");   // returns true
+primary.add("red") === primary; // returns true
+Array.from(primary.union(HashSet.of<string>("cyan", "red"))).sort();    // returns ['blue', 'cyan', 'green', 'red']
+HashSet.of(1, 2, 3).delete(2).size; // returns 2
\ No newline at end of file
@@ -0,0 +1,377 @@
+/**
+ * --------------------------------
+ * Wiring Classes With a Container
+ * --------------------------------
+ * createClock, in Class Types in Interfaces, takes a constructor and the arguments for it, and
+ * makes the instance. Whoever calls it still has to find those arguments, and in a larger program
+ * the arguments are themselves objects with constructors of their own.
+ *
+ * A dependency injection container takes over that work. Each class is registered once, with what
+ * its constructor needs, and the container builds whatever is asked for, building its dependencies
+ * first. Registrations also say how long an instance lives: one for the whole program, a new one
+ * every time, or one per scope, where a scope is a child container. Which class is registered can
+ * come from configuration, so switching from a digital clock to an analog one is a change of data.
+ *
+ * -------
+ * Tokens
+ * -------
+ * The container is asked for things by token. A token has a name for error messages, and carries
+ * the type of what it stands for, so that resolving it gives back a value of that type. The type
+ * is kept in a property that is never set; without it, every token would have the same shape, and
+ * a Token<string> could be passed where a Token<number> is expected.
+ */
+class Token<T> {
+    readonly type?: T;
+
+    constructor (readonly name: string) { }
+}
+
+/**
+ * A constructor’s dependencies are listed as one token per parameter. A mapped type over the
+ * parameter list turns each parameter type into the token for it:
+ */
+type Dependencies<Args extends unknown[]> = { [K in keyof Args]: Token<Args[K]> };
+
+type Lifetime = "singleton" | "scoped" | "transient";
+
+interface Provider<T> {
+    lifetime: Lifetime;
+    create(resolve: <D>(dependency: Token<D>) => D): T;
+}
+
+/**
+ * -------
+ * Errors
+ * -------
+ * When something can’t be built, the message says what was being built at the time, all the way
+ * down, so the registration that is missing or wrong can be found without a debugger.
+ */
+class ResolutionError extends Error {
+    name = "ResolutionError";
+
+    constructor (message: string, readonly path: Token<unknown>[]) {
+        super(path.length > 1 ? `${ message } (resolving ${ describePath(path) })` : message);
+    }
+}
+
+/** A dependency that, somewhere down the line, depends on itself. The path is the cycle. */
+class CircularDependencyError extends ResolutionError {
+    name = "CircularDependencyError";
+
+    constructor (path: Token<unknown>[]) {
+        super(`${ path[path.length - 1].name } depends on itself`, path);
+    }
+}
+
+function describePath(path: Token<unknown>[]): string {
+    return path.map(token => token.name).join(" -> ");
+}
+
+/**
+ * --------------
+ * The container
+ * --------------
+ * register takes a token, a class whose instances fit it, the tokens for the class’s constructor
+ * parameters, and a lifetime:
+ *
+ *      - a singleton is built once, by the container it is registered with, and shared by all of
+ *        that container’s children,
+ *      - a scoped instance is built once per container that resolves it,
+ *      - and a transient one is built every time it is needed, which is the default.
+ *
+ * A singleton’s dependencies come from the container it is registered with, even when a child asks
+ * for it. Otherwise, the first child to ask would decide what every other child gets.
+ *
+ * value registers something already built, as a singleton. Both return the container, so that
+ * registrations can be chained.
+ */
+class Container {
+    private providers = new Map<Token<unknown>, Provider<unknown>>();
+    private instances = new Map<Token<unknown>, unknown>();
+
+    constructor (private parent?: Container) { }
+
+    register<T, Args extends unknown[]>(token: Token<T>, ctor: new (...args: Args) => T, dependencies: Dependencies<Args>, lifetime: Lifetime = "transient"): this {
+        const tokens = dependencies as Token<unknown>[];
+        this.providers.set(token, { lifetime, create: resolve => new ctor(...tokens.map(resolve) as Args) });
+        return this;
+    }
+
+    value<T>(token: Token<T>, value: T): this {
+        this.providers.set(token, { lifetime: "singleton", create: () => value });
+        return this;
+    }
+
+    resolve<T>(token: Token<T>): T {
+        return this.get(token, []);
+    }
+
+    /** A child container sees everything this one registers, and can override it. */
+    createChild(): Container {
+        return new Container(this);
+    }
+
+    private get<T>(token: Token<T>, path: Token<unknown>[]): T {
+        const here = path.concat(token);
+        if (path.indexOf(token) > -1) {
+            throw new CircularDependencyError(here);
+        }
+        const owner = this.ownerOf(token);
+        if (!owner) {
+            throw new ResolutionError(`Nothing is registered for ${ token.name }`, here);
+        }
+        const provider = owner.providers.get(token) as Provider<T>;
+        const container = provider.lifetime === "singleton" ? owner : this;
+        const create = () => provider.create(dependency => container.get(dependency, here));
+
+        if (provider.lifetime === "transient") {
+            return create();
+        }
+        if (!container.instances.has(token)) {
+            container.instances.set(token, create());
+        }
+        return container.instances.get(token) as T;
+    }
+
+    private ownerOf(token: Token<unknown>): Container | undefined {
+        return this.providers.has(token) ? this : this.parent && this.parent.ownerOf(token);
+    }
+}
+
+/**
+ * ------------------
+ * Wiring the clocks
+ * ------------------
+ * The clocks are the ones from Class Types in Interfaces, keeping the time they are created with,
+ * as they do in A Clock With a Scheduler. ClockConstructor is unchanged, and the container can
+ * build anything that fits it.
+ */
+interface ClockConstructor {
+    new (hour: number, minute: number): ClockInterface;
+}
+interface ClockInterface {
+    tick(): void;
+    readonly time: string;
+}
+
+abstract class MinuteClock implements ClockInterface {
+    private minutes: number;
+
+    constructor(h: number, m: number) {
+        this.minutes = h * 60 + m;
+    }
+
+    get time() {
+        const minute = this.minutes % 60;
+        return Math.floor(this.minutes / 60) + ":" + (minute < 10 ? "0" : "") + minute;
+    }
+
+    tick() {
+        this.minutes = (this.minutes + 1) % (24 * 60);
+        this.announce();
+    }
+
+    protected abstract announce(): void;
+}
+
+class DigitalClock extends MinuteClock {
+    protected announce() {
+        console.log(`${ this.time } beep beep`);
+    }
+}
+class AnalogClock extends MinuteClock {
+    protected announce() {
+        console.log(`${ this.time } tick tock`);
+    }
+}
+
+const Hour = new Token<number>("Hour");
+const Minute = new Token<number>("Minute");
+const Clock = new Token<ClockInterface>("Clock");
+
+let container = new Container()
+    .value(Hour, 12)
+    .value(Minute, 7)
+    .register(Clock, DigitalClock, [Hour, Minute]);
+
+let clock = container.resolve(Clock);
+
+clock.time; // returns 12:07
+clock.tick();   // outputs "12:08 beep beep"
+
+/**
+ * The dependencies are checked against the constructor, like the arguments to createClock are:
+ * a token of the wrong type, or one too few, doesn’t compile. Nor does a class that doesn’t fit
+ * the token it is registered for.
+ */
+const Label = new Token<string>("Label");
+
+container.register(Clock, DigitalClock, [Hour, Label]); // Error TS2322: Type 'Token<string>' is not assignable to type 'Token<number>'.
+container.register(Clock, DigitalClock, [Hour]);    // Error TS2345: Argument of type '[Token<number>]' is not assignable to parameter of type '[h: Token<number>, m: Token<number>]'.
+container.register(Label, DigitalClock, [Hour, Minute]);    // Error TS2345: Argument of type 'typeof DigitalClock' is not assignable to parameter of type 'new (h: number, m: number) => string'.
+
+/**
+ * ----------
+ * Lifetimes
+ * ----------
+ * A clock can depend on other registrations in turn. Here, a wall holds a clock, and a building
+ * has a wall. Each new building gets a new wall, but there is only one clock for all of them:
+ */
+class Wall {
+    constructor (readonly clock: ClockInterface) { }
+}
+class Building {
+    constructor (readonly wall: Wall) { }
+}
+
+const TheWall = new Token<Wall>("Wall");
+const TheBuilding = new Token<Building>("Building");
+
+{
+    let container = new Container()
+        .value(Hour, 9)
+        .value(Minute, 0)
+        .register(Clock, AnalogClock, [Hour, Minute], "singleton")
+        .register(TheWall, Wall, [Clock])
+        .register(TheBuilding, Building, [TheWall]);
+
+    let first = container.resolve(TheBuilding);
+    let second = container.resolve(TheBuilding);
+
+    first === second;   // returns false
+    first.wall === second.wall; // returns false
+    first.wall.clock === second.wall.clock; // returns true
+
+    first.wall.clock.tick();    // outputs "9:01 tick tock"
+    second.wall.clock.time; // returns 9:01
+}
+
+/**
+ * ----------------------------
+ * Child containers and scopes
+ * ----------------------------
+ * A child container is a scope: scoped registrations get one instance per child. Here, every room
+ * has its own clock, shared by everything in that room. A child can also override registrations,
+ * so one room can have its clock set to a different time, while the other rooms keep the
+ * building’s time.
+ */
+{
+    let building = new Container()
+        .value(Hour, 9)
+        .value(Minute, 0)
+        .register(Clock, DigitalClock, [Hour, Minute], "scoped")
+        .register(TheWall, Wall, [Clock]);
+
+    let kitchen = building.createChild();
+    let office = building.createChild().value(Hour, 17);
+
+    kitchen.resolve(Clock) === kitchen.resolve(TheWall).clock;  // returns true
+    kitchen.resolve(Clock) === office.resolve(Clock);   // returns false
+
+    kitchen.resolve(Clock).time;    // returns 9:00
+    office.resolve(Clock).time; // returns 17:00
+}
+
+/**
+ * A singleton is still built by the container it is registered with, from that container’s
+ * registrations, whichever child asks first:
+ */
+{
+    let building = new Container()
+        .value(Hour, 9)
+        .value(Minute, 0)
+        .register(Clock, DigitalClock, [Hour, Minute], "singleton");
+
+    let office = building.createChild().value(Hour, 17);
+
+    office.resolve(Clock).time; // returns 9:00
+    office.resolve(Clock) === building.resolve(Clock);  // returns true
+}
+
+/**
+ * ----------------------
+ * When resolution fails
+ * ----------------------
+ * A missing registration is reported with the chain of dependencies that led to it:
+ */
+{
+    let container = new Container()
+        .value(Hour, 9)
+        .register(Clock, DigitalClock, [Hour, Minute])
+        .register(TheWall, Wall, [Clock]);
+
+    container.resolve(TheWall); // throws ResolutionError
+
+    try {
+        container.resolve(TheWall);
+    }
+    catch (error) {
+        console.log(error.message); // outputs "Nothing is registered for Minute (resolving Wall -> Clock -> Minute)"
+    }
+}
+
+/**
+ * Dependencies that go round in a circle could never be built, as each needs the other to exist
+ * first. Rather than recursing until the stack runs out, the container notices that it is already
+ * building the token it is asked for:
+ */
+{
+    class Alarm {
+        constructor (readonly snooze: Snooze) { }
+    }
+    class Snooze {
+        constructor (readonly alarm: Alarm) { }
+    }
+
+    const TheAlarm = new Token<Alarm>("Alarm");
+    const TheSnooze = new Token<Snooze>("Snooze");
+
+    let container = new Container()
+        .register(TheAlarm, Alarm, [TheSnooze])
+        .register(TheSnooze, Snooze, [TheAlarm]);
+
+    container.resolve(TheAlarm);    // throws CircularDependencyError
+
+    try {
+        container.resolve(TheSnooze);
+    }
+    catch (error) {
+        console.log(error.message); // outputs "Snooze depends on itself (resolving Snooze -> Alarm -> Snooze)"
+        console.log(error.path.map((token: Token<unknown>) => token.name)); // outputs ['Snooze', 'Alarm', 'Snooze']
+    }
+}
+
+/**
+ * ------------------------
+ * Wiring by configuration
+ * ------------------------
+ * Since any ClockConstructor can be registered for Clock, which one is a matter of configuration.
+ * The configuration names the kind of clock and its time, and the rest of the program only ever
+ * asks for a Clock. Only CLOCKS’s own properties name clocks; "constructor" or "toString" in a
+ * configuration are as unknown as any other name, even though every object inherits them:
+ */
+const CLOCKS: { [kind: string]: ClockConstructor } = {
+    digital: DigitalClock,
+    analog: AnalogClock
+};
+
+interface ClockConfiguration {
+    clock: string;
+    hour: number;
+    minute: number;
+}
+
+function configure(configuration: ClockConfiguration): Container {
+    if (!Object.prototype.hasOwnProperty.call(CLOCKS, configuration.clock)) {
+        throw new RangeError(`There is no ${ configuration.clock } clock; try one of ${ Object.keys(CLOCKS).join(", ") }`);
+    }
+    return new Container()
+        .value(Hour, configuration.hour)
+        .value(Minute, configuration.minute)
+        .register(Clock, CLOCKS[configuration.clock], [Hour, Minute], "singleton");
+}
+
+configure(JSON.parse('{"clock": "digital", "hour": 12, "minute": 7}')).resolve(Clock).tick(); // outputs "12:08 beep beep"
+configure(JSON.parse('{"clock": "analog", "hour": 7, "minute": 32}')).resolve(Clock).tick();  // outputs "7:33 tick tock"
+configure({clock: "sundial", hour: 12, minute: 0}); // throws RangeError
+configure(JSON.parse('{"clock": "constructor", "hour": 12, "minute": 0}'));  // throws RangeError
\ No newline at end of file
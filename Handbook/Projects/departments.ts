@@ -0,0 +1,542 @@
+/**
+ * -----------------------
+ * A Department Directory
+ * -----------------------
+ * Abstract Classes, in Classes, has an abstract Department that every concrete department extends,
+ * but all its departments can do is log: printMeeting prints a sentence someone typed in, and
+ * generateReports prints that it is generating reports.
+ *
+ * This chapter gives departments something to work with. Meetings are data, with a recurrence such
+ * as each Monday at 10am, from which the sentence is written, the dates worked out, and a calendar
+ * file exported. Reports are data too: every department contributes sections to a report, which is
+ * then exported as CSV and as Markdown. A directory keeps track of the departments.
+ *
+ * ------------
+ * Recurrences
+ * ------------
+ * A recurrence says which days a meeting is held on: every so many days, every so many weeks on
+ * certain days of the week, or every so many months on a day of the month. The interval defaults to
+ * one.
+ */
+type Weekday = "Sunday" | "Monday" | "Tuesday" | "Wednesday" | "Thursday" | "Friday" | "Saturday";
+
+const WEEKDAYS: Weekday[] = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+type Recurrence =
+    | { frequency: "daily"; interval?: number }
+    | { frequency: "weekly"; interval?: number; on: Weekday[] }
+    | { frequency: "monthly"; interval?: number; day: number };
+
+/**
+ * A meeting is held at the same time of day each time, from the day it starts until the day it
+ * ends, if it ever does. Days are written as in 2024-01-15, and times are local to wherever the
+ * meeting is held, the way a calendar shows them.
+ */
+interface Meeting {
+    title: string;
+    recurrence: Recurrence;
+    hour: number;
+    minute?: number;
+    durationMinutes: number;
+    starts: string;
+    until?: string;
+}
+
+/**
+ * Days are counted in UTC, where every day is exactly as long as the next, so stepping from one to
+ * the next is plain arithmetic and never lands on the wrong day around a change to summer time.
+ */
+const DAY = 24 * 60 * 60 * 1000;
+
+/** Date.UTC moves a day past the end of its month into the next one, so such days are refused. */
+function parseDay(day: string): number {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(day);
+    if (!match) {
+        throw new RangeError(`${ day } is not a day; days are written as in 2024-01-15`);
+    }
+    const time = Date.UTC(+match[1], +match[2] - 1, +match[3]);
+    if (formatDay(time) !== day) {
+        throw new RangeError(`${ day } is not a day of the calendar`);
+    }
+    return time;
+}
+
+function formatDay(time: number): string {
+    return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * The type of a meeting can't tell an hour of the day from any other number, so the numbers are
+ * checked before a meeting is used: times have to be on the clock, intervals and lengths whole and
+ * positive, and a monthly meeting's day one that months have.
+ */
+function checkMeeting(meeting: Meeting): Meeting {
+    const whole = (n: number, min: number, max: number) => Number.isInteger(n) && n >= min && n <= max;
+    const recurrence = meeting.recurrence;
+    if (!whole(meeting.hour, 0, 23) || !whole(meeting.minute || 0, 0, 59)) {
+        throw new RangeError(`${ meeting.title } can't start at ${ meeting.hour }:${ meeting.minute || 0 }`);
+    }
+    if (!whole(meeting.durationMinutes, 1, Infinity)) {
+        throw new RangeError(`${ meeting.title } can't last ${ meeting.durationMinutes } minutes`);
+    }
+    if (recurrence.interval !== undefined && !whole(recurrence.interval, 1, Infinity)) {
+        throw new RangeError(`${ meeting.title } can't be held at an interval of ${ recurrence.interval }`);
+    }
+    if (recurrence.frequency === "monthly" && !whole(recurrence.day, 1, 31)) {
+        throw new RangeError(`${ meeting.title } can't be held on day ${ recurrence.day } of the month`);
+    }
+    return meeting;
+}
+
+function isHeldOn(recurrence: Recurrence, day: number, starts: number): boolean {
+    const interval = recurrence.interval || 1;
+    const date = new Date(day);
+    const start = new Date(starts);
+
+    switch (recurrence.frequency) {
+        case "daily":
+            return Math.round((day - starts) / DAY) % interval === 0;
+        case "weekly": {
+            // Weeks start on Monday, so that a meeting every other week on Monday and Friday meets on
+            // both days in the same week.
+            const monday = (time: number) => time - (new Date(time).getUTCDay() + 6) % 7 * DAY;
+            const weeks = Math.round((monday(day) - monday(starts)) / (7 * DAY));
+            return recurrence.on.indexOf(WEEKDAYS[date.getUTCDay()]) > -1 && weeks % interval === 0;
+        }
+        case "monthly": {
+            const months = (date.getUTCFullYear() - start.getUTCFullYear()) * 12 + date.getUTCMonth() - start.getUTCMonth();
+            return date.getUTCDate() === recurrence.day && months % interval === 0;
+        }
+    }
+}
+
+/** The days between `from` and `to`, both included, on which the meeting is held. */
+function occurrences(meeting: Meeting, from: string, to: string): string[] {
+    checkMeeting(meeting);
+    const starts = parseDay(meeting.starts);
+    const end = Math.min(parseDay(to), meeting.until ? parseDay(meeting.until) : Infinity);
+    const days: string[] = [];
+
+    for (let day = Math.max(parseDay(from), starts); day <= end; day += DAY) {
+        if (isHeldOn(meeting.recurrence, day, starts)) {
+            days.push(formatDay(day));
+        }
+    }
+    return days;
+}
+
+/**
+ * A meeting is first held within one period of its recurrence after it starts: within so many days,
+ * or weeks, counting the rest of the week it starts in. A monthly meeting on the 29th, 30th or 31st
+ * skips the months too short for it, though, so for those twelve periods are searched.
+ */
+function firstOccurrence(meeting: Meeting): string | undefined {
+    const recurrence = meeting.recurrence;
+    const interval = recurrence.interval || 1;
+    const starts = new Date(parseDay(meeting.starts));
+    const [year, month, day] = [starts.getUTCFullYear(), starts.getUTCMonth(), starts.getUTCDate()];
+    const horizon =
+        recurrence.frequency === "daily" ? Date.UTC(year, month, day + interval) :
+        recurrence.frequency === "weekly" ? Date.UTC(year, month, day + 7 * (interval + 1)) :
+        Date.UTC(year, month + 12 * interval, day);
+    return occurrences(meeting, meeting.starts, formatDay(horizon))[0];
+}
+
+firstOccurrence({ title: "Board review", recurrence: { frequency: "monthly", interval: 18, day: 28 }, hour: 9, durationMinutes: 120, starts: "2024-01-29" });    // returns 2025-07-28
+
+/**
+ * Meetings at impossible times, or that repeat at no interval at all, are refused, as are days
+ * that no calendar has:
+ */
+let standup: Meeting = { title: "Stand-up", recurrence: { frequency: "daily" }, hour: 9, durationMinutes: 15, starts: "2024-01-01" };
+
+occurrences({ ...standup, hour: 25 }, "2024-01-01", "2024-01-07");  // throws RangeError
+occurrences({ ...standup, recurrence: { frequency: "daily", interval: 0 } }, "2024-01-01", "2024-01-07"); // throws RangeError
+occurrences({ ...standup, recurrence: { frequency: "weekly", interval: 1.5, on: ["Monday"] } }, "2024-01-01", "2024-01-07");   // throws RangeError
+occurrences({ ...standup, recurrence: { frequency: "monthly", day: 32 } }, "2024-01-01", "2024-01-07");   // throws RangeError
+occurrences(standup, "2024-02-28", "2024-02-31");   // throws RangeError
+occurrences(standup, "2024-02-28", "2024-03-01");   // returns ['2024-02-28', '2024-02-29', '2024-03-01']
+
+/**
+ * -------------------------
+ * Meetings, in plain words
+ * -------------------------
+ * The sentence printMeeting used to print is now written from the data, so it can’t disagree with
+ * the calendar:
+ */
+function formatTime(hour: number, minute = 0): string {
+    const suffix = hour < 12 ? "am" : "pm";
+    const twelve = hour % 12 === 0 ? 12 : hour % 12;
+    return minute === 0 ? `${ twelve }${ suffix }` : `${ twelve }:${ minute < 10 ? "0" : "" }${ minute }${ suffix }`;
+}
+
+function list(words: string[]): string {
+    return words.length < 2 ? words.join("") : `${ words.slice(0, -1).join(", ") } and ${ words[words.length - 1] }`;
+}
+
+function ordinal(n: number): string {
+    const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] || "th";
+    return n + suffix;
+}
+
+function describe(meeting: Meeting): string {
+    checkMeeting(meeting);
+    const recurrence = meeting.recurrence;
+    const interval = recurrence.interval || 1;
+    const every = (unit: string) => interval === 1 ? `each ${ unit }` : interval === 2 ? `every other ${ unit }` : `every ${ interval } ${ unit }s`;
+    const at = `at ${ formatTime(meeting.hour, meeting.minute) }`;
+
+    switch (recurrence.frequency) {
+        case "daily":
+            return `${ every("day") } ${ at }`;
+        case "weekly":
+            return interval === 1 || interval === 2
+                ? `${ every(list(recurrence.on)) } ${ at }`
+                : `${ every("week") } on ${ list(recurrence.on) } ${ at }`;
+        case "monthly":
+            return `on the ${ ordinal(recurrence.day) } of ${ every("month") } ${ at }`;
+    }
+}
+
+/**
+ * ------------
+ * Departments
+ * ------------
+ * Department is still abstract, and still has printName and printMeeting, but printMeeting is no
+ * longer left to each department. What a department has to provide instead is its meetings and its
+ * part of the reports.
+ */
+interface ReportSection {
+    title: string;
+    columns: string[];
+    rows: (string | number)[][];
+}
+
+abstract class Department {
+    constructor(public name: string) {
+
+    }
+
+    abstract readonly meetings: Meeting[];
+
+    printName(): void {
+        console.log("Department name: " + this.name);
+    }
+
+    printMeeting(): void {
+        this.meetings.forEach(meeting => console.log(`The ${ this.name } department meets ${ describe(meeting) }.`));
+    }
+
+    abstract reportSections(): ReportSection[];
+}
+
+class AccountingDepartment extends Department {
+    meetings: Meeting[] = [
+        { title: "Accounting", recurrence: { frequency: "weekly", on: ["Monday"] }, hour: 10, durationMinutes: 60, starts: "2024-01-01" },
+        { title: "Month-end close", recurrence: { frequency: "monthly", day: 28 }, hour: 14, minute: 30, durationMinutes: 90, starts: "2024-01-01" }
+    ];
+
+    private ledger: [string, number, number][] = [
+        ["Office supplies", 1250, 0],
+        ["Consulting revenue", 0, 8400],
+        ["Travel", 2310.5, 0]
+    ];
+
+    constructor() {
+        super("Accounting and Auditing");
+    }
+
+    reportSections(): ReportSection[] {
+        const debit = this.ledger.reduce((sum, entry) => sum + entry[1], 0);
+        const credit = this.ledger.reduce((sum, entry) => sum + entry[2], 0);
+        return [
+            { title: "Ledger", columns: ["Account", "Debit", "Credit"], rows: this.ledger },
+            { title: "Balance", columns: ["Debit", "Credit", "Net"], rows: [[debit, credit, credit - debit]] }
+        ];
+    }
+}
+
+class ShippingDepartment extends Department {
+    meetings: Meeting[] = [
+        { title: "Dispatch planning", recurrence: { frequency: "weekly", interval: 2, on: ["Tuesday", "Friday"] }, hour: 8, minute: 15, durationMinutes: 30, starts: "2024-01-01", until: "2024-06-30" }
+    ];
+
+    constructor() {
+        super("Shipping");
+    }
+
+    reportSections(): ReportSection[] {
+        return [{
+            title: "Shipments",
+            columns: ["Order", "Destination", "Weight (kg)"],
+            rows: [["A-1001", "Berlin, Germany", 12.5], ["A-1002", "Pipe | Works, \"Main\" St", 3]]
+        }];
+    }
+}
+
+let department: Department;
+department = new Department("Sales");  // Error TS2511: Cannot create an instance of an abstract class.
+department = new AccountingDepartment();
+department.printName(); // outputs "Department name: Accounting and Auditing"
+department.printMeeting();  // outputs "The Accounting and Auditing department meets each Monday at 10am. The Accounting and Auditing department meets on the 28th of each month at 2:30pm."
+
+new ShippingDepartment().printMeeting();    // outputs "The Shipping department meets every other Tuesday and Friday at 8:15am."
+
+let accounting = new AccountingDepartment();
+let weekly = accounting.meetings[0];
+
+occurrences(weekly, "2024-01-01", "2024-01-31");    // returns ['2024-01-01', '2024-01-08', '2024-01-15', '2024-01-22', '2024-01-29']
+occurrences(new ShippingDepartment().meetings[0], "2024-01-01", "2024-01-31");  // returns ['2024-01-02', '2024-01-05', '2024-01-16', '2024-01-19', '2024-01-30']
+
+/**
+ * A recurrence must fit its frequency, which the union type checks: weekly meetings need days of
+ * the week, and those days have to be spelled right.
+ */
+accounting.meetings.push({ title: "Audit", recurrence: { frequency: "weekly", day: 1 }, hour: 9, durationMinutes: 60, starts: "2024-01-01" });  // Error TS2353: Object literal may only specify known properties, and 'day' does not exist in type '{ frequency: "weekly"; interval?: number; on: Weekday[]; }'.
+accounting.meetings.push({ title: "Audit", recurrence: { frequency: "weekly", on: ["Munday"] }, hour: 9, durationMinutes: 60, starts: "2024-01-01" });   // Error TS2820: Type '"Munday"' is not assignable to type 'Weekday'. Did you mean '"Monday"'?
+
+/**
+ * --------------
+ * The directory
+ * --------------
+ * The directory holds one of each department, by name, and answers questions about all of them,
+ * such as what meetings there are in a given week.
+ */
+interface Appointment {
+    day: string;
+    time: string;
+    department: string;
+    meeting: string;
+}
+
+class DepartmentDirectory {
+    private departments = new Map<string, Department>();
+
+    add(...departments: Department[]): this {
+        for (const department of departments) {
+            if (this.departments.has(department.name)) {
+                throw new RangeError(`There is already a department called ${ department.name }`);
+            }
+            this.departments.set(department.name, department);
+        }
+        return this;
+    }
+
+    get(name: string): Department {
+        const department = this.departments.get(name);
+        if (!department) {
+            throw new RangeError(`There is no department called ${ name }`);
+        }
+        return department;
+    }
+
+    all(): Department[] {
+        return Array.from(this.departments.values());
+    }
+
+    /** Every meeting between two days, both included, in the order they are held. */
+    agenda(from: string, to: string): Appointment[] {
+        const appointments: Appointment[] = [];
+        for (const department of this.all()) {
+            for (const meeting of department.meetings) {
+                const time = `${ meeting.hour < 10 ? "0" : "" }${ meeting.hour }:${ (meeting.minute || 0) < 10 ? "0" : "" }${ meeting.minute || 0 }`;
+                occurrences(meeting, from, to).forEach(day => appointments.push({ day, time, department: department.name, meeting: meeting.title }));
+            }
+        }
+        return appointments.sort((a, b) => (a.day + a.time).localeCompare(b.day + b.time));
+    }
+}
+
+let directory = new DepartmentDirectory().add(new AccountingDepartment(), new ShippingDepartment());
+
+directory.get("Shipping").name; // returns Shipping
+directory.get("Marketing"); // throws RangeError
+directory.add(new ShippingDepartment());    // throws RangeError
+
+directory.agenda("2024-01-15", "2024-01-19").map(a => `${ a.day } ${ a.time } ${ a.meeting }`); // returns ['2024-01-15 10:00 Accounting', '2024-01-16 08:15 Dispatch planning', '2024-01-19 08:15 Dispatch planning']
+
+/**
+ * ----------------
+ * Calendar export
+ * ----------------
+ * Calendar programs exchange meetings as iCalendar files, ending in .ics. Each meeting becomes an
+ * event, starting on its first day, with a rule that repeats it the way its recurrence does. A few
+ * details of the format matter:
+ *
+ *      - lines end with a carriage return and a line feed,
+ *      - commas, semicolons and backslashes in text are escaped with a backslash,
+ *      - lines longer than 75 bytes, in UTF-8, are folded, by breaking them and starting the rest
+ *        with a space, and never in the middle of a character,
+ *      - and every event needs an identifier that stays the same each time it is exported, and the
+ *        time the file was made, in UTC.
+ *
+ * Meeting times are written without a time zone, which means “at this time wherever you are”.
+ */
+function icsText(text: string): string {
+    return text.replace(/[\\;,]/g, character => "\\" + character).replace(/\n/g, "\\n");
+}
+
+/** How many bytes a string takes in UTF-8. */
+function utf8Length(text: string): number {
+    let length = 0;
+    for (const character of text) {
+        const code = character.codePointAt(0)!;
+        length += code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+    }
+    return length;
+}
+
+/**
+ * Strings are iterated a code point at a time, so a character made of two UTF-16 code units, such
+ * as an emoji, stays on one line. The space that starts a folded line counts towards its 75 bytes.
+ */
+function icsFold(line: string): string {
+    const lines = [""];
+    let length = 0;
+    for (const character of line) {
+        const size = utf8Length(character);
+        if (length + size > 75) {
+            lines.push(" ");
+            length = 1;
+        }
+        lines[lines.length - 1] += character;
+        length += size;
+    }
+    return lines.join("\r\n");
+}
+
+function icsRule(meeting: Meeting): string {
+    const recurrence = meeting.recurrence;
+    const parts = [`FREQ=${ recurrence.frequency.toUpperCase() }`];
+    if (recurrence.interval && recurrence.interval > 1) {
+        parts.push(`INTERVAL=${ recurrence.interval }`);
+    }
+    if (recurrence.frequency === "weekly") {
+        parts.push(`BYDAY=${ recurrence.on.map(day => day.slice(0, 2).toUpperCase()).join(",") }`);
+    }
+    if (recurrence.frequency === "monthly") {
+        parts.push(`BYMONTHDAY=${ recurrence.day }`);
+    }
+    if (meeting.until) {
+        parts.push(`UNTIL=${ meeting.until.replace(/-/g, "") }T235959`);
+    }
+    return parts.join(";");
+}
+
+function toICS(directory: DepartmentDirectory, stamp: Date): string {
+    const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", "PRODID:-//TypeScript Handbook//Departments//EN"];
+    const utc = stamp.toISOString().replace(/[-:]/g, "").replace(/\.\d+/, "");
+
+    for (const department of directory.all()) {
+        department.meetings.forEach((meeting, index) => {
+            const first = firstOccurrence(meeting);
+            if (first === undefined) {
+                return;
+            }
+            const time = [meeting.hour, meeting.minute || 0].map(n => (n < 10 ? "0" : "") + n).join("");
+            lines.push(
+                "BEGIN:VEVENT",
+                `UID:${ department.name.toLowerCase().replace(/\W+/g, "-") }-${ index + 1 }@handbook.example`,
+                `DTSTAMP:${ utc }`,
+                `DTSTART:${ first.replace(/-/g, "") }T${ time }00`,
+                `DURATION:PT${ meeting.durationMinutes }M`,
+                `RRULE:${ icsRule(meeting) }`,
+                `SUMMARY:${ icsText(meeting.title) }`,
+                `DESCRIPTION:${ icsText(`The ${ department.name } department meets ${ describe(meeting) }.`) }`,
+                "END:VEVENT"
+            );
+        });
+    }
+    lines.push("END:VCALENDAR");
+    return lines.map(icsFold).join("\r\n") + "\r\n";
+}
+
+let calendar = toICS(directory, new Date(Date.UTC(2024, 0, 1, 9, 0)));
+
+calendar.split("\r\n").slice(3, 13);    // returns ['BEGIN:VEVENT', 'UID:accounting-and-auditing-1@handbook.example', 'DTSTAMP:20240101T090000Z', 'DTSTART:20240101T100000', 'DURATION:PT60M', 'RRULE:FREQ=WEEKLY;BYDAY=MO', 'SUMMARY:Accounting', 'DESCRIPTION:The Accounting and Auditing department meets each Monday at 10a', ' m.', 'END:VEVENT']
+calendar.split("\r\n").filter(line => line.indexOf("RRULE") === 0);    // returns ['RRULE:FREQ=WEEKLY;BYDAY=MO', 'RRULE:FREQ=MONTHLY;BYMONTHDAY=28', 'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,FR;UNTIL=20240630T235959']
+
+/**
+ * Folding counts bytes, so a line with accents or emoji is folded sooner than one of plain letters,
+ * and unfolding, by removing every line break followed by a space, gives back the line as it was:
+ */
+let party = `SUMMARY:${ "🎉".repeat(20) }`;
+
+icsFold(`DESCRIPTION:${ "é".repeat(40) }`).split("\r\n").map(utf8Length); // returns [74, 19]
+icsFold(party).split("\r\n").map(utf8Length);  // returns [72, 17]
+icsFold(party).replace(/\r\n /g, "") === party;   // returns true
+
+/**
+ * --------
+ * Reports
+ * --------
+ * A report gathers the sections of every department in the directory. What comes out of it is
+ * plain data, so the same report can be exported in as many formats as needed.
+ */
+interface Report {
+    title: string;
+    parts: { department: string; sections: ReportSection[] }[];
+}
+
+function generateReport(directory: DepartmentDirectory, title: string): Report {
+    return { title, parts: directory.all().map(department => ({ department: department.name, sections: department.reportSections() })) };
+}
+
+/**
+ * CSV has no room for more than one table, so each section becomes a file of its own, named after
+ * its department and title. A field that contains a comma, a quote or a line break is quoted, with
+ * quotes inside it doubled.
+ */
+function csvField(value: string | number): string {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${ text.replace(/"/g, "\"\"") }"` : text;
+}
+
+function toCSV(report: Report): { [fileName: string]: string } {
+    const files: { [fileName: string]: string } = {};
+    for (const part of report.parts) {
+        for (const section of part.sections) {
+            const fileName = `${ part.department } - ${ section.title }.csv`.toLowerCase().replace(/[^a-z0-9.]+/g, "-");
+            files[fileName] = [<(string | number)[]>section.columns].concat(section.rows).map(row => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+        }
+    }
+    return files;
+}
+
+/**
+ * Markdown puts the whole report in one document, with a heading for each department and a table
+ * for each section. Pipes in cells would end the cell early, so they are escaped, and columns that
+ * only hold numbers are aligned to the right.
+ */
+function markdownCell(value: string | number): string {
+    return String(value).replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function toMarkdown(report: Report): string {
+    const lines = [`# ${ report.title }`];
+    for (const part of report.parts) {
+        lines.push("", `## ${ part.department }`);
+        for (const section of part.sections) {
+            const numeric = section.columns.map((_, i) => section.rows.every(row => typeof row[i] === "number"));
+            lines.push(
+                "",
+                `### ${ section.title }`,
+                "",
+                `| ${ section.columns.map(markdownCell).join(" | ") } |`,
+                `| ${ numeric.map(right => right ? "---:" : "---").join(" | ") } |`,
+                ...section.rows.map(row => `| ${ row.map(markdownCell).join(" | ") } |`)
+            );
+        }
+    }
+    return lines.join("\n") + "\n";
+}
+
+let report = generateReport(directory, "January report");
+let csv = toCSV(report);
+
+Object.keys(csv);   // returns ['accounting-and-auditing-ledger.csv', 'accounting-and-auditing-balance.csv', 'shipping-shipments.csv']
+csv["shipping-shipments.csv"].split("\r\n");    // returns ['Order,Destination,Weight (kg)', 'A-1001,"Berlin, Germany",12.5', 'A-1002,"Pipe | Works, ""Main"" St",3', '']
+csv["accounting-and-auditing-balance.csv"].split("\r\n");   // returns ['Debit,Credit,Net', '3560.5,8400,4839.5', '']
+
+console.log(toMarkdown(report).split("\n").slice(6, 11).join("\n")); // outputs "| Account | Debit | Credit | | --- | ---: | ---: | | Office supplies | 1250 | 0 | | Consulting revenue | 0 | 8400 | | Travel | 2310.5 | 0 |"
+toMarkdown(report).split("\n").slice(-4);   // returns ['| --- | --- | ---: |', '| A-1001 | Berlin, Germany | 12.5 |', '| A-1002 | Pipe \\| Works, "Main" St | 3 |', '']
\ No newline at end of file
@@ -0,0 +1,255 @@
+/**
+ * -------------
+ * Typed Events
+ * -------------
+ * Hybrid Types, in Interfaces, shows an object that is a function with properties of its own. An
+ * event emitter fits that shape well: calling it emits an event, and its properties manage the
+ * listeners.
+ *
+ * The names of the events, and what each one carries, come from an interface, so that the compiler
+ * checks every emit and every listener against it. Listeners can be added for one event, for every
+ * event, or for every event whose name starts a certain way, and can be async. An emitter warns
+ * when listeners pile up, which is usually a sign that they are added more often than removed.
+ *
+ * -----------
+ * Event maps
+ * -----------
+ * An event map is an interface from event names to the payloads they carry. Names with dots form
+ * groups, such as alarm.set and alarm.ring:
+ */
+interface ClockEvents {
+    "tick": { time: string };
+    "alarm.set": { at: string };
+    "alarm.ring": { at: string; snoozes: number };
+}
+
+/**
+ * A listener for a single event gets its payload. Listeners for several events get the event as a
+ * discriminated union of name and payload, so checking the name narrows the payload, as in
+ * Discriminated Unions:
+ */
+type Listener<T> = (payload: T) => void | Promise<void>;
+
+type EventOf<Events, Names extends keyof Events> = { [Name in Names]: { name: Name; payload: Events[Name] } }[Names];
+
+/**
+ * A pattern is "*", for every event, or a group of names followed by .*, for every event in the
+ * group. Template literal types take each name apart at its dots to list the groups, and find the
+ * names a pattern matches:
+ */
+type Groups<Name extends string> = Name extends `${ infer Head }.${ infer Rest }` ? Head | `${ Head }.${ Groups<Rest> }` : never;
+
+type Pattern<Events> = "*" | `${ Groups<keyof Events & string> }.*`;
+
+type Matching<Events, P extends string> =
+    P extends "*" ? keyof Events :
+    P extends `${ infer Group }.*` ? Extract<keyof Events, `${ Group }.${ string }`> :
+    never;
+
+let pattern: Pattern<ClockEvents> = "alarm.*";
+let matching: Matching<ClockEvents, "alarm.*"> = "alarm.ring";
+
+// Error TS2322: Type '"tick.*"' is not assignable to type 'Pattern<ClockEvents>'.
+let noSuchGroup: Pattern<ClockEvents> = "tick.*";
+
+/**
+ * ------------
+ * The emitter
+ * ------------
+ * Calling the emitter emits an event to its listeners, in the order they were added, those for the
+ * exact name first. It returns a promise that settles once every listener has finished, async ones
+ * included.
+ *
+ * A listener that fails, by throwing or by rejecting, doesn’t stop the others, and doesn’t make the
+ * promise reject either: the error goes to the emitter’s onError, which writes it to the console
+ * unless it is replaced.
+ */
+interface Emitter<Events> {
+    <Name extends keyof Events>(name: Name, payload: Events[Name]): Promise<void>;
+
+    /** Adds a listener, and returns a function that removes it again. */
+    on<Name extends keyof Events>(name: Name, listener: Listener<Events[Name]>): () => void;
+    on<P extends Pattern<Events>>(pattern: P, listener: Listener<EventOf<Events, Matching<Events, P>>>): () => void;
+
+    /** Adds a listener that is removed as soon as it has been called. */
+    once<Name extends keyof Events>(name: Name, listener: Listener<Events[Name]>): () => void;
+    once<P extends Pattern<Events>>(pattern: P, listener: Listener<EventOf<Events, Matching<Events, P>>>): () => void;
+
+    /** Removes a listener added with the same name or pattern; returns whether there was one. */
+    off(nameOrPattern: keyof Events | Pattern<Events>, listener: Function): boolean;
+
+    listenerCount(nameOrPattern: keyof Events | Pattern<Events>): number;
+
+    /** How many listeners a name or pattern can have before the emitter warns about a leak. */
+    maxListeners: number;
+    onError: (error: unknown, name: keyof Events) => void;
+}
+
+interface Registration {
+    key: string;
+    listener: Function;
+    once: boolean;
+}
+
+function matches(key: string, name: string): boolean {
+    return key === name || key === "*" || (key.endsWith(".*") && name.startsWith(key.slice(0, -1)));
+}
+
+/**
+ * The emitter is built like getCounter: a function, asserted to be an Emitter, with its other
+ * members added one by one. The implementations are written once for both overloads of on and
+ * once, so their parameters have the loosest types of the two.
+ */
+function createEmitter<Events>(): Emitter<Events> {
+    let registrations: Registration[] = [];
+    const warned = new Set<string>();
+
+    let emitter = <Emitter<Events>>function (name: keyof Events & string, payload: unknown) {
+        const exact = registrations.filter(r => r.key === name);
+        const patterns = registrations.filter(r => r.key !== name && matches(r.key, name));
+        const settled = exact.concat(patterns).map(registration => {
+            if (registration.once) {
+                registrations = registrations.filter(r => r !== registration);
+            }
+            const argument = registration.key === name ? payload : { name, payload };
+            const report = (error: unknown) => emitter.onError(error, name);
+            try {
+                return Promise.resolve(registration.listener(argument)).then(undefined, report);
+            }
+            catch (error) {
+                report(error);
+                return Promise.resolve();
+            }
+        });
+        return Promise.all(settled).then(() => undefined);
+    };
+
+    const add = (key: string, listener: Function, once: boolean) => {
+        const registration = { key, listener, once };
+        registrations.push(registration);
+
+        const count = emitter.listenerCount(key as keyof Events);
+        if (count > emitter.maxListeners && !warned.has(key)) {
+            warned.add(key);
+            console.warn(`Possible listener leak: ${ count } listeners for ${ key }; raise maxListeners if this is intended`);
+        }
+        return () => {
+            registrations = registrations.filter(r => r !== registration);
+        };
+    };
+
+    emitter.on = (key: string, listener: Function) => add(key, listener, false);
+    emitter.once = (key: string, listener: Function) => add(key, listener, true);
+    emitter.off = (key, listener) => {
+        const index = registrations.findIndex(r => r.key === key && r.listener === listener);
+        if (index === -1) {
+            return false;
+        }
+        registrations.splice(index, 1);
+        return true;
+    };
+    emitter.listenerCount = key => registrations.filter(r => r.key === key).length;
+    emitter.maxListeners = 10;
+    emitter.onError = (error, name) => console.error(`A listener for ${ String(name) } failed: ${ error }`);
+    return emitter;
+}
+
+/**
+ * -----------------------
+ * Emitting and listening
+ * -----------------------
+ */
+let clock = createEmitter<ClockEvents>();
+
+clock.on("tick", tick => console.log(`tick at ${ tick.time }`));
+clock("tick", { time: "12:08" });   // outputs "tick at 12:08"
+
+/**
+ * Payloads are checked against the event map, and so are the names:
+ */
+clock("tick", { time: 1208 });  // Error TS2322: Type 'number' is not assignable to type 'string'.
+clock("tock", { time: "12:08" });   // Error TS2345: Argument of type '"tock"' is not assignable to parameter of type 'keyof ClockEvents'.
+clock.on("alarm.ring", ring => ring.time);  // Error TS2339: Property 'time' does not exist on type '{ at: string; snoozes: number; }'.
+
+/**
+ * A pattern listener gets the event’s name with its payload, and checking the name tells the
+ * compiler which payload it is:
+ */
+clock.on("alarm.*", event => {
+    if (event.name === "alarm.ring") {
+        console.log(`ringing at ${ event.payload.at }, snoozed ${ event.payload.snoozes } times`);
+    }
+    else {
+        console.log(`alarm set for ${ event.payload.at }`);
+    }
+});
+
+clock("alarm.set", { at: "7:00" }); // outputs "alarm set for 7:00"
+clock("alarm.ring", { at: "7:00", snoozes: 2 });    // outputs "ringing at 7:00, snoozed 2 times"
+
+/**
+ * A "*" listener hears everything, after the listeners for the exact name:
+ */
+let removeLogger = clock.on("*", event => console.log(`[${ event.name }]`));
+
+clock("tick", { time: "12:09" });   // outputs "tick at 12:09 [tick]"
+removeLogger();
+clock("tick", { time: "12:10" });   // outputs "tick at 12:10"
+
+/**
+ * -----------------------------
+ * once, off and listener leaks
+ * -----------------------------
+ * A once listener only hears the first event. off takes a listener away given the same function it
+ * was added with:
+ */
+clock.once("alarm.ring", ring => console.log(`first ring at ${ ring.at }`));
+
+clock("alarm.ring", { at: "7:05", snoozes: 0 });    // outputs "first ring at 7:05 ringing at 7:05, snoozed 0 times"
+clock("alarm.ring", { at: "7:10", snoozes: 1 });    // outputs "ringing at 7:10, snoozed 1 times"
+
+let countTicks = () => { };
+clock.on("tick", countTicks);
+clock.listenerCount("tick");    // returns 2
+clock.off("tick", countTicks);  // returns true
+clock.off("tick", countTicks);  // returns false
+
+/**
+ * A listener added every time something happens, and never removed, is a common leak. Past
+ * maxListeners listeners for one name, the emitter warns, once:
+ */
+{
+    let clock = createEmitter<ClockEvents>();
+    clock.maxListeners = 2;
+
+    clock.on("tick", () => { });
+    clock.on("tick", () => { });
+    clock.on("tick", () => { });    // outputs "Possible listener leak: 3 listeners for tick; raise maxListeners if this is intended"
+    clock.on("tick", () => { });    // outputs ""
+}
+
+/**
+ * ----------------
+ * Async listeners
+ * ----------------
+ * A listener can return a promise, and the emitter’s promise waits for it. Here, saving takes 100
+ * milliseconds, and the emitter settles once it is done. A failing listener is reported, and the
+ * others carry on:
+ */
+interface DocumentEvents {
+    "save": { id: number };
+}
+
+let documents = createEmitter<DocumentEvents>();
+let wait = (milliseconds: number) => new Promise<void>(resolve => setTimeout(resolve, milliseconds));
+
+documents.on("save", async document => {
+    await wait(100);
+    console.log(`saved ${ document.id }`);
+});
+documents.on("save", async () => {
+    await wait(50);
+    throw new Error("backup is offline");
+});
+
+documents("save", { id: 1 }).then(() => console.log("all listeners done")); // outputs "A listener for save failed: Error: backup is offline saved 1 all listeners done"
\ No newline at end of file
@@ -0,0 +1,276 @@
+/**
+ * -------------------
+ * Geometry on a Grid
+ * -------------------
+ * Static Properties showed a Grid whose origin is shared by every grid and whose scale belongs to
+ * each one, with a single method measuring how far a point is from the origin. This chapter grows
+ * it into a small geometry module: points and vectors that can be added and scaled, several ways to
+ * measure distance, grids with origins of their own that can convert points between each other, and
+ * bounding boxes to ask which points lie where.
+ *
+ * -------------------
+ * Points and vectors
+ * -------------------
+ * The point types are the ones from Using a class as an interface, in Classes. A vector has the same
+ * shape as a point: it is the step from one point to another.
+ */
+class Point {
+    x: number;
+    y: number;
+}
+
+interface Point3d extends Point {
+    z: number;
+}
+
+type Vector = Point;
+
+/**
+ * Any Point3d is also a Point, so the functions below take Points and look for a z coordinate at
+ * runtime. A type guard lets the compiler follow along:
+ */
+function is3d(point: Point): point is Point3d {
+    return "z" in point;
+}
+
+function coordinates(point: Point): number[] {
+    return is3d(point) ? [point.x, point.y, point.z] : [point.x, point.y];
+}
+
+/**
+ * Arithmetic works coordinate by coordinate, and only keeps z when both sides have one. Overloads
+ * tell callers that two Point3ds give back a Point3d:
+ */
+function combine(a: Point, b: Point, operation: (m: number, n: number) => number): Point | Point3d {
+    const result: Point = { x: operation(a.x, b.x), y: operation(a.y, b.y) };
+    return is3d(a) && is3d(b) ? { ...result, z: operation(a.z, b.z) } : result;
+}
+
+function add(a: Point3d, b: Point3d): Point3d;
+function add(a: Point, b: Vector): Point;
+function add(a: Point, b: Vector) {
+    return combine(a, b, (m, n) => m + n);
+}
+
+function subtract(a: Point3d, b: Point3d): Point3d;
+function subtract(a: Point, b: Point): Vector;
+function subtract(a: Point, b: Point) {
+    return combine(a, b, (m, n) => m - n);
+}
+
+function multiply(vector: Point3d, factor: number): Point3d;
+function multiply(vector: Vector, factor: number): Vector;
+function multiply(vector: Vector, factor: number) {
+    return combine(vector, vector, m => m * factor);
+}
+
+function dot(a: Vector, b: Vector): number {
+    const sides = coordinates(b);
+    return coordinates(a).reduce((sum, m, i) => sum + m * (sides[i] || 0), 0);
+}
+
+add({x: 1, y: 2}, {x: 3, y: 4});    // returns { x: 4, y: 6 }
+add({x: 1, y: 2, z: 3}, {x: 1, y: 1, z: 1}).z;  // returns 4
+subtract({x: 5, y: 5}, {x: 2, y: 1});   // returns { x: 3, y: 4 }
+multiply({x: 1, y: -2, z: 0.5}, 2); // returns { x: 2, y: -4, z: 1 }
+dot({x: 1, y: 0}, {x: 0, y: 1});    // returns 0
+
+/**
+ * Mixing dimensions gives a flat result, which the overloads reflect by only promising a Point:
+ */
+let flat = {x: 1, y: 1};
+let deep = {x: 1, y: 2, z: 3};
+
+add(deep, flat);    // returns { x: 2, y: 3 }
+add(deep, flat).z;  // Error TS2339: Property 'z' does not exist on type 'Point'.
+
+/**
+ * -----------------
+ * Distance metrics
+ * -----------------
+ * Static Properties measured distance as the crow flies. That is one of several metrics, and which
+ * one fits depends on how things move: a rook on a chessboard or a taxi in a city of blocks travels
+ * the Manhattan distance, and a king, which moves diagonally as cheaply as straight, travels the
+ * Chebyshev distance. All three are functions of the same type, so callers can choose one:
+ */
+type Metric = (a: Point, b: Point) => number;
+
+const euclidean: Metric = (a, b) => Math.sqrt(dot(subtract(a, b), subtract(a, b)));
+const manhattan: Metric = (a, b) => coordinates(subtract(a, b)).reduce((sum, d) => sum + Math.abs(d), 0);
+const chebyshev: Metric = (a, b) => Math.max(...coordinates(subtract(a, b)).map(Math.abs));
+
+let from = {x: 1, y: 1};
+let to = {x: 4, y: 5};
+
+euclidean(from, to);    // returns 5
+manhattan(from, to);    // returns 7
+chebyshev(from, to);    // returns 4
+
+/**
+ * Points with a z coordinate are Points too, and are measured in all three dimensions:
+ */
+let corner: Point3d = {x: 0, y: 0, z: 0};
+
+manhattan(corner, deep);   // returns 6
+
+/**
+ * ------
+ * Grids
+ * ------
+ * A grid lays its own coordinates over the plane: grid coordinate (0, 0) sits at the grid’s origin,
+ * and one step on the grid covers `scale` units of the plane. The static origin is still there, as
+ * the default for grids that don’t choose their own.
+ *
+ * Distances are measured in grid steps, which is why the original divided by the scale. Every
+ * metric above grows in proportion to the distance, so dividing works for all of them.
+ */
+class Grid {
+    static origin = {x: 0, y: 0};
+
+    constructor (public scale: number, public origin: Point = Grid.origin) {
+        if (!(scale > 0)) {
+            throw new RangeError(`A grid's scale must be positive, not ${ scale }`);
+        }
+    }
+
+    /**
+     * How many grid steps from the grid’s origin to a point given in plane units, as in Static
+     * Properties.
+     */
+    calculateDistanceFromOrigin(point: Point, metric: Metric = euclidean) {
+        return metric(point, this.origin) / this.scale;
+    }
+
+    /**
+     * How many grid steps apart two points given in grid coordinates are. They are already measured
+     * in steps, so the metric is applied to them as they are.
+     */
+    distance(a: Point, b: Point, metric: Metric = euclidean) {
+        return metric(a, b);
+    }
+
+    /** Where a point on the plane falls on this grid. */
+    toGrid(point: Point): Point {
+        return multiply(subtract(point, this.origin), 1 / this.scale);
+    }
+
+    /** Where a point on this grid falls on the plane. */
+    toPlane(point: Point): Point {
+        return add(this.origin, multiply(point, this.scale));
+    }
+
+    /** Takes a point in this grid’s coordinates to the same place in another grid’s. */
+    convert(point: Point, to: Grid): Point {
+        return to.toGrid(this.toPlane(point));
+    }
+}
+
+/**
+ * The examples from Static Properties give the same answers:
+ */
+let grid1 = new Grid(1.0);  // 1x scale
+let grid2 = new Grid(5.0);  // 5x scale
+
+console.log(grid1.calculateDistanceFromOrigin({x: 10, y: 10}));  // outputs 14.142135623730951
+console.log(grid2.calculateDistanceFromOrigin({x: 10, y: 10}));  // outputs 2.8284271247461903
+
+/**
+ * A grid with an origin of its own measures from there instead, and grids of different scales and
+ * origins can hand points to each other:
+ */
+let board = new Grid(10, {x: 100, y: 50});
+
+board.calculateDistanceFromOrigin({x: 130, y: 90});  // returns 5
+board.calculateDistanceFromOrigin({x: 130, y: 90}, manhattan);  // returns 7
+board.toGrid({x: 130, y: 90});  // returns { x: 3, y: 4 }
+board.toPlane({x: 3, y: 4});    // returns { x: 130, y: 90 }
+board.convert({x: 3, y: 4}, grid2); // returns { x: 26, y: 18 }
+grid2.convert({x: 26, y: 18}, board);   // returns { x: 3, y: 4 }
+board.distance({x: 0, y: 0}, {x: 2, y: 2}, chebyshev);  // returns 2
+
+new Grid(0);    // throws RangeError
+
+/**
+ * ---------------
+ * Bounding boxes
+ * ---------------
+ * A bounding box is the smallest upright rectangle around a set of points. Boxes are cheap to
+ * compare, so they are the first question to ask before anything more precise: a point outside a
+ * shape’s box can’t be inside the shape, and two shapes whose boxes don’t meet can’t touch.
+ */
+class BoundingBox {
+    constructor (readonly min: Point, readonly max: Point) {
+        if (min.x > max.x || min.y > max.y) {
+            throw new RangeError("A bounding box's minimum must not lie beyond its maximum");
+        }
+    }
+
+    static around(...points: Point[]) {
+        if (points.length === 0) {
+            throw new RangeError("There is no bounding box around no points");
+        }
+        const xs = points.map(p => p.x);
+        const ys = points.map(p => p.y);
+        return new BoundingBox({x: Math.min(...xs), y: Math.min(...ys)}, {x: Math.max(...xs), y: Math.max(...ys)});
+    }
+
+    get width() {
+        return this.max.x - this.min.x;
+    }
+
+    get height() {
+        return this.max.y - this.min.y;
+    }
+
+    get center(): Point {
+        return multiply(add(this.min, this.max), 0.5);
+    }
+
+    /** Points on the edge count as inside. */
+    contains(point: Point) {
+        return point.x >= this.min.x && point.x <= this.max.x && point.y >= this.min.y && point.y <= this.max.y;
+    }
+
+    intersects(other: BoundingBox) {
+        return this.min.x <= other.max.x && other.min.x <= this.max.x && this.min.y <= other.max.y && other.min.y <= this.max.y;
+    }
+
+    union(other: BoundingBox) {
+        return BoundingBox.around(this.min, this.max, other.min, other.max);
+    }
+
+    /** The points that lie in the box, in their original order. */
+    query<P extends Point>(points: P[]): P[] {
+        return points.filter(point => this.contains(point));
+    }
+}
+
+let towns = [
+    {name: "Ashford", x: 2, y: 3},
+    {name: "Bexley", x: 7, y: 1},
+    {name: "Crayford", x: 4, y: 8},
+    {name: "Dartford", x: 9, y: 6}
+];
+let region = BoundingBox.around(...towns);
+
+region.min; // returns { x: 2, y: 1 }
+region.max; // returns { x: 9, y: 8 }
+region.center;  // returns { x: 5.5, y: 4.5 }
+
+/**
+ * query keeps the type of the points it is given, so the towns come back with their names:
+ */
+let west = new BoundingBox({x: 0, y: 0}, {x: 5, y: 10});
+
+west.query(towns).map(town => town.name);   // returns ['Ashford', 'Crayford']
+west.intersects(new BoundingBox({x: 5, y: 5}, {x: 6, y: 6}));   // returns true
+west.intersects(new BoundingBox({x: 6, y: 0}, {x: 7, y: 1}));   // returns false
+west.union(region).width;   // returns 9
+
+/**
+ * Boxes live on the plane, so a box drawn in grid coordinates is taken to the plane corner by
+ * corner before it is queried:
+ */
+let squares = new BoundingBox(board.toPlane({x: 0, y: 0}), board.toPlane({x: 2, y: 2}));
+
+squares.query([{x: 105, y: 55}, {x: 125, y: 55}, {x: 120, y: 70}]); // returns [{ x: 105, y: 55 }, { x: 120, y: 70 }]
\ No newline at end of file
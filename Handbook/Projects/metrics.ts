@@ -0,0 +1,416 @@
+/**
+ * ---------------------------
+ * Metrics With a Hybrid Type
+ * ---------------------------
+ * Hybrid Types, in Interfaces, describes a Counter that can be called like a function and also has
+ * an interval and a reset method. Its getCounter builds one, but the function does nothing, and the
+ * string it promises to return never comes.
+ *
+ * This chapter keeps the shape and gives it a purpose: counters, gauges and histograms of the kind
+ * services report to a monitoring system. Calling a metric records a value, labels tell apart the
+ * series within a metric, the interval rolls values up into windows of time, and a registry writes
+ * every metric out in the Prometheus text exposition format.
+ *
+ * -----------
+ * The shapes
+ * -----------
+ * The Counter of Hybrid Types is the base of every metric here. A metric is called with a value
+ * and, optionally, labels, and returns the samples of the series it recorded into, in exposition
+ * format. Only a counter can be called without a value, to count one; a gauge or a histogram has
+ * nothing sensible to record without one:
+ */
+interface Counter {
+    (start: number): string;
+    interval: number;
+    reset(): void;
+}
+
+type Labels = { [name: string]: string };
+
+/** The change in a series over one window of `interval` milliseconds, or for a gauge its value at the end. */
+interface Rollup {
+    start: number;
+    value: number;
+}
+
+interface Metric extends Counter {
+    readonly name: string;
+    readonly help: string;
+    readonly type: "counter" | "gauge" | "histogram";
+    /** A counter’s total, a gauge’s value or a histogram’s number of observations. */
+    value(labels?: Labels): number;
+    /** The most recent complete windows, oldest first. */
+    rollups(labels?: Labels): Rollup[];
+    /** The metric in exposition format, one line per element. */
+    expose(): string[];
+}
+
+interface CounterMetric extends Metric {
+    (amount?: number, labels?: Labels): string;
+}
+
+interface Gauge extends Metric {
+    (value: number, labels?: Labels): string;
+}
+
+interface Histogram extends Metric {
+    (observation: number, labels?: Labels): string;
+    readonly buckets: number[];
+    sum(labels?: Labels): number;
+}
+
+interface MetricOptions {
+    /** How long each rollup window lasts, in milliseconds; 0 turns rollups off. */
+    interval?: number;
+    /** How many complete windows each series keeps. */
+    retain?: number;
+    /** Where the time comes from, so that tests can control it. */
+    now?: () => number;
+}
+
+/**
+ * ----------------------
+ * The exposition format
+ * ----------------------
+ * Every metric is written as a HELP line, a TYPE line and one sample per line, each sample being a
+ * name, labels in braces and a value:
+ *
+ *      # HELP http_requests_total Requests served.
+ *      # TYPE http_requests_total counter
+ *      http_requests_total{method="GET",status="200"} 3
+ *
+ * Names and label names are restricted to letters, digits, underscores and, for names, colons.
+ * Label values are quoted, so quotes, backslashes and line breaks in them are escaped.
+ */
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+function formatValue(value: number): string {
+    return value === Infinity ? "+Inf" : value === -Infinity ? "-Inf" : String(value);
+}
+
+/** Labels are written in order of name, so each set of labels has exactly one way to be written. */
+function formatLabels(labels: Labels, last: Labels = {}): string {
+    const pairs = Object.keys(labels).sort().map(name => [name, labels[name]])
+        .concat(Object.keys(last).map(name => [name, last[name]]))
+        .map(([name, value]) => `${ name }="${ value.replace(/\\/g, "\\\\").replace(/"/g, "\\\"").replace(/\n/g, "\\n") }"`);
+    return pairs.length > 0 ? `{${ pairs.join(",") }}` : "";
+}
+
+function sample(name: string, labels: Labels, value: number, last?: Labels): string {
+    return `${ name }${ formatLabels(labels, last) } ${ formatValue(value) }`;
+}
+
+formatLabels({ status: "200", method: "GET" }); // returns {method="GET",status="200"}
+sample("temperature", { room: "the \"lab\"" }, 21.5);   // returns 'temperature{room="the \"lab\""} 21.5'
+
+/**
+ * -------
+ * Series
+ * -------
+ * A metric keeps one series per set of labels. The fields a series needs depend on the kind of
+ * metric, but only histograms use more than the value.
+ */
+interface Series {
+    labels: Labels;
+    value: number;
+    sum: number;
+    /** For each bucket, how many observations were at most its upper bound. */
+    bucketCounts: number[];
+    /** When the current window started, and the value then. */
+    window: { start: number; base: number };
+    rollups: Rollup[];
+}
+
+/**
+ * Every kind of metric is built the same way. The hybrid object starts as a function, as getCounter
+ * did, and gets its other members added. Functions already have a name property, which can’t be
+ * assigned, but can be redefined:
+ */
+function createMetric<X extends object>(
+    type: Metric["type"],
+    name: string,
+    help: string,
+    options: MetricOptions,
+    record: (series: Series, value: number | undefined) => void,
+    samples: (series: Series) => string[],
+    extend: (find: (labels?: Labels) => Series | undefined) => X
+): ((value?: number, labels?: Labels) => string) & Metric & X {
+    if (!METRIC_NAME.test(name)) {
+        throw new SyntaxError(`${ JSON.stringify(name) } is not a valid metric name`);
+    }
+    const now = options.now || Date.now;
+    const retain = options.retain === undefined ? 10 : options.retain;
+    if (!(Number.isInteger(retain) && retain > 0)) {
+        throw new RangeError(`${ name } can't retain ${ retain } windows`);
+    }
+    const series = new Map<string, Series>();
+
+    const windowStart = () => metric.interval > 0 ? Math.floor(now() / metric.interval) * metric.interval : 0;
+
+    const seriesFor = (labels: Labels = {}) => {
+        for (const label of Object.keys(labels)) {
+            if (!LABEL_NAME.test(label) || (type === "histogram" && label === "le")) {
+                throw new SyntaxError(`${ JSON.stringify(label) } can't be a label of ${ name }`);
+            }
+        }
+        const key = formatLabels(labels);
+        if (!series.has(key)) {
+            series.set(key, { labels: { ...labels }, value: 0, sum: 0, bucketCounts: [], window: { start: windowStart(), base: 0 }, rollups: [] });
+        }
+        return roll(series.get(key)!);
+    };
+
+    // Reading a metric doesn't create the series it asks about, so it won't be exposed as a zero.
+    const find = (labels: Labels = {}) => {
+        const found = series.get(formatLabels(labels));
+        return found && roll(found);
+    };
+
+    // Closes the current window once time has moved past it. Windows in which nothing was recorded
+    // are filled in, so that a quiet minute shows up as a zero rather than as nothing.
+    const roll = (s: Series) => {
+        const interval = metric.interval;
+        const current = windowStart();
+        if (!(interval > 0) || s.window.start >= current) {
+            return s;
+        }
+        s.rollups.push({ start: s.window.start, value: type === "gauge" ? s.value : s.value - s.window.base });
+        for (let start = Math.max(s.window.start + interval, current - retain * interval); start < current; start += interval) {
+            s.rollups.push({ start, value: type === "gauge" ? s.value : 0 });
+        }
+        s.rollups = s.rollups.slice(-retain);
+        s.window = { start: current, base: s.value };
+        return s;
+    };
+
+    // A refused value records nothing, so a series it would have been the first in goes away again.
+    const metric = Object.assign(function (value?: number, labels?: Labels) {
+        const created = !series.has(formatLabels(labels || {}));
+        const s = seriesFor(labels);
+        try {
+            record(s, value);
+        } catch (error) {
+            if (created) {
+                series.delete(formatLabels(s.labels));
+            }
+            throw error;
+        }
+        return samples(s).join("\n");
+    }, {
+        help,
+        type,
+        interval: options.interval === undefined ? 60 * 1000 : options.interval,
+        value: (labels?: Labels) => find(labels) ? find(labels).value : 0,
+        rollups: (labels?: Labels) => find(labels) ? find(labels).rollups.slice() : [],
+        /** Everything goes back to zero, as it would if the service restarted, but the series stay. */
+        reset() {
+            series.forEach(s => {
+                s.value = s.sum = 0;
+                s.bucketCounts = [];
+                s.rollups = [];
+                s.window = { start: windowStart(), base: 0 };
+            });
+        },
+        expose() {
+            const lines = [`# HELP ${ name } ${ help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n") }`, `# TYPE ${ name } ${ type }`];
+            Array.from(series.keys()).sort().forEach(key => lines.push(...samples(roll(series.get(key)!))));
+            return lines;
+        }
+    }, extend(find));
+    Object.defineProperty(metric, "name", { value: name });
+    return metric;
+}
+
+/**
+ * --------------------
+ * Counters and gauges
+ * --------------------
+ * A counter only goes up: calling it adds one, or the amount it is given, which has to be a finite
+ * number. A gauge goes up and down: calling it sets its value, which has to be a finite number too.
+ */
+function createCounter(name: string, help: string, options: MetricOptions = {}): CounterMetric {
+    return createMetric("counter", name, help, options, (series, amount = 1) => {
+        if (!(amount >= 0 && isFinite(amount))) {
+            throw new RangeError(`${ name } is a counter, so it can't change by ${ amount }`);
+        }
+        series.value += amount;
+    }, series => [sample(name, series.labels, series.value)], () => ({}));
+}
+
+function createGauge(name: string, help: string, options: MetricOptions = {}): Gauge {
+    return createMetric("gauge", name, help, options, (series, value) => {
+        if (typeof value !== "number" || !isFinite(value)) {
+            throw new RangeError(`${ name } is a gauge, so it can't be set to ${ value }`);
+        }
+        series.value = value;
+    }, series => [sample(name, series.labels, series.value)], () => ({}));
+}
+
+let requests = createCounter("http_requests_total", "Requests served.");
+
+requests(1, { method: "GET", status: "200" });  // returns 'http_requests_total{method="GET",status="200"} 1'
+requests(2, { method: "GET", status: "200" });  // returns 'http_requests_total{method="GET",status="200"} 3'
+requests(undefined, { method: "POST", status: "500" }); // returns 'http_requests_total{method="POST",status="500"} 1'
+requests.value({ status: "200", method: "GET" });   // returns 3
+requests(-1);   // throws RangeError
+requests(Infinity); // throws RangeError
+requests.name;  // returns http_requests_total
+
+let temperature = createGauge("room_temperature_celsius", "The temperature of each room.");
+
+temperature(21.5, { room: "lab" }); // returns 'room_temperature_celsius{room="lab"} 21.5'
+temperature(19, { room: "lab" });   // returns 'room_temperature_celsius{room="lab"} 19'
+temperature();  // Error TS2554: Expected 1-2 arguments, but got 0.
+temperature(undefined, { room: "lab" });    // throws RangeError
+temperature.value({ room: "lab" }); // returns 19
+temperature(undefined, { room: "kitchen" });    // throws RangeError
+temperature.expose();   // returns ['# HELP room_temperature_celsius The temperature of each room.', '# TYPE room_temperature_celsius gauge', 'room_temperature_celsius{room="lab"} 19']
+
+createCounter("requests per second", "Not a name."); // throws SyntaxError
+
+/**
+ * Because each metric extends the Counter of Hybrid Types, it can be used wherever that Counter
+ * is expected, and the call returns the string the interface always promised:
+ */
+function getCounter(): Counter {
+    return createCounter("calls_total", "Calls counted by getCounter.");
+}
+
+let c = getCounter();
+c(10);  // returns 'calls_total 10'
+c.reset();
+c(1);   // returns 'calls_total 1'
+c.interval = 5.0;
+
+/**
+ * -----------
+ * Histograms
+ * -----------
+ * A histogram sorts observations, such as how long requests took, into buckets by upper bound. Each
+ * bucket counts every observation up to its bound, so the counts only grow from one bucket to the
+ * next, and a last bucket, written as +Inf, counts everything. The sum and number of observations
+ * come as two more samples. An observation that isn’t a finite number would fit in no bucket and
+ * spoil the sum, so it is refused.
+ */
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function createHistogram(name: string, help: string, buckets = DEFAULT_BUCKETS, options: MetricOptions = {}): Histogram {
+    const bounds = buckets.slice().sort((a, b) => a - b);
+    if (bounds.some((bound, i) => !isFinite(bound) || bound === bounds[i - 1])) {
+        throw new RangeError("Bucket bounds must be finite and different from each other");
+    }
+
+    return createMetric("histogram", name, help, options, (series, observation) => {
+        if (typeof observation !== "number" || !isFinite(observation)) {
+            throw new RangeError(`${ name } is a histogram, so it can't observe ${ observation }`);
+        }
+        series.value++;
+        series.sum += observation;
+        bounds.forEach((bound, i) => {
+            series.bucketCounts[i] = (series.bucketCounts[i] || 0) + (observation <= bound ? 1 : 0);
+        });
+    }, series => [
+        ...bounds.map((bound, i) => sample(`${ name }_bucket`, series.labels, series.bucketCounts[i] || 0, { le: formatValue(bound) })),
+        sample(`${ name }_bucket`, series.labels, series.value, { le: "+Inf" }),
+        sample(`${ name }_sum`, series.labels, series.sum),
+        sample(`${ name }_count`, series.labels, series.value)
+    ], find => ({
+        buckets: bounds,
+        sum: (labels?: Labels) => find(labels) ? find(labels).sum : 0
+    }));
+}
+
+let latency = createHistogram("request_duration_seconds", "How long requests took.", [0.1, 0.5, 1]);
+
+latency(0.25);
+latency(0.5);
+console.log(latency(0.75)); // outputs 'request_duration_seconds_bucket{le="0.1"} 0 request_duration_seconds_bucket{le="0.5"} 2 request_duration_seconds_bucket{le="1"} 3 request_duration_seconds_bucket{le="+Inf"} 3 request_duration_seconds_sum 1.5 request_duration_seconds_count 3'
+latency.sum();  // returns 1.5
+latency(0.1, { le: "1" });  // throws SyntaxError
+latency(undefined, { route: "/" }); // throws RangeError
+latency(NaN);   // throws RangeError
+latency.sum();  // returns 1.5
+
+/**
+ * --------
+ * Rollups
+ * --------
+ * The interval splits time into windows, and each series remembers how it changed in its most
+ * recent windows, which is enough to tell how many requests came in per minute without keeping
+ * every request. Windows start on multiples of the interval, so the windows of every metric with
+ * the same interval line up.
+ *
+ * Here the time comes from a variable we move by hand, so the example doesn’t depend on the clock:
+ */
+let time = 0;
+let logins = createCounter("logins_total", "Successful logins.", { interval: 60 * 1000, retain: 3, now: () => time });
+
+logins(2);
+time = 30 * 1000;
+logins(1);
+time = 70 * 1000;
+logins(4);
+logins.rollups();   // returns [{ start: 0, value: 3 }]
+
+/**
+ * Windows without any logins count as zero, and only the most recent three are kept:
+ */
+time = 5 * 60 * 1000;
+logins.rollups();   // returns [{ start: 120000, value: 0 }, { start: 180000, value: 0 }, { start: 240000, value: 0 }]
+logins.value(); // returns 7
+createCounter("logouts_total", "Logouts.", { retain: 0 });  // throws RangeError
+
+/**
+ * A gauge’s rollup is its value at the end of each window, and resetting a metric starts its
+ * windows over:
+ */
+{
+    let time = 0;
+    let queued = createGauge("jobs_queued", "Jobs waiting to run.", { interval: 1000, now: () => time });
+
+    queued(5);
+    time = 1500;
+    queued(2);
+    time = 2000;
+    queued.rollups();   // returns [{ start: 0, value: 5 }, { start: 1000, value: 2 }]
+    queued.reset();
+    queued.rollups();   // returns []
+}
+
+/**
+ * -------------
+ * The exporter
+ * -------------
+ * A registry collects the metrics of a service and writes all of them out together, which is what
+ * a Prometheus server reads when it scrapes the service. Two metrics with the same name would make
+ * the output ambiguous, so a registry refuses the second.
+ */
+class Registry {
+    private metrics: Metric[] = [];
+
+    register<M extends Metric>(metric: M): M {
+        if (this.metrics.some(registered => registered.name === metric.name)) {
+            throw new Error(`A metric named ${ metric.name } is already registered`);
+        }
+        this.metrics.push(metric);
+        return metric;
+    }
+
+    /** The exposition format ends every line, the last one included, with a line feed. */
+    expose(): string {
+        return this.metrics.map(metric => metric.expose().join("\n") + "\n").join("");
+    }
+}
+
+let registry = new Registry();
+let served = registry.register(createCounter("served_total", "Pages served.\nBy path."));
+let size = registry.register(createHistogram("page_size_bytes", "Size of the pages served.", [1000, 10000]));
+
+served(1, { path: "/" });
+served(1, { path: "/about" });
+served(1, { path: "/" });
+size(1200);
+
+registry.expose().split("\n");  // returns ['# HELP served_total Pages served.\\nBy path.', '# TYPE served_total counter', 'served_total{path="/"} 2', 'served_total{path="/about"} 1', '# HELP page_size_bytes Size of the pages served.', '# TYPE page_size_bytes histogram', 'page_size_bytes_bucket{le="1000"} 0', 'page_size_bytes_bucket{le="10000"} 1', 'page_size_bytes_bucket{le="+Inf"} 1', 'page_size_bytes_sum 1200', 'page_size_bytes_count 1', '']
+registry.register(createCounter("served_total", "Again."));  // throws Error
\ No newline at end of file
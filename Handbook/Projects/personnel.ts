@@ -0,0 +1,350 @@
+/**
+ * ------------------
+ * A Personnel Model
+ * ------------------
+ * Public, Private and Protected Modifiers, in Classes, builds a Person with a protected name and an
+ * Employee with a private department, which is only ever a string, and the only thing an employee
+ * can do is give an elevator pitch.
+ *
+ * This chapter grows them into a model of the people in a company. Employees belong to real
+ * departments, hold roles that inherit from one another, and report to managers. Identifiers can’t
+ * be changed once given. The whole staff can be queried, and saved to and loaded from JSON, with
+ * each class deciding what of itself goes into the JSON, since private and protected only exist while
+ * compiling.
+ *
+ * ------------
+ * Departments
+ * ------------
+ * A department is identified by a short code, which never changes, while its name may:
+ */
+class Department {
+    constructor(readonly code: string, public name: string) { }
+
+    printName(): void {
+        console.log("Department name: " + this.name);
+    }
+}
+
+/**
+ * ------
+ * Roles
+ * ------
+ * Roles form a hierarchy: a senior engineer is an engineer, who is a member of staff. A role can do
+ * everything its parent can, and more. Asking whether one role is another walks up the hierarchy.
+ */
+class Role {
+    private permissions: string[];
+
+    constructor(readonly name: string, readonly parent?: Role, permissions: string[] = []) {
+        this.permissions = permissions;
+    }
+
+    is(role: Role): boolean {
+        for (let current: Role | undefined = this; current; current = current.parent) {
+            if (current === role) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    can(permission: string): boolean {
+        return this.permissions.indexOf(permission) > -1 || (this.parent !== undefined && this.parent.can(permission));
+    }
+}
+
+const staff = new Role("Staff", undefined, ["read wiki"]);
+const engineer = new Role("Engineer", staff, ["deploy"]);
+const seniorEngineer = new Role("Senior Engineer", engineer, ["approve changes"]);
+const manager = new Role("Manager", staff, ["approve leave"]);
+
+seniorEngineer.is(staff);   // returns true
+manager.is(engineer);   // returns false
+seniorEngineer.can("deploy");   // returns true
+manager.can("deploy");  // returns false
+
+/**
+ * ---------------------
+ * People and employees
+ * ---------------------
+ * Person and Employee keep their modifiers from Classes: the name is protected, so Employee can use
+ * it, and the department is private. The department is now a Department, though, and an id is
+ * added, readonly so it can’t be changed after the person is created.
+ *
+ * An employee may also have a manager, and private notes, such as from performance reviews, which
+ * nobody outside the class should read. The manager is set through an accessor, which refuses a
+ * manager who already reports to the employee, since following the managers up from anybody in
+ * such a loop would never come to an end. toJSON and fromJSON are explained under Saving and
+ * loading, below.
+ */
+class Person {
+    constructor(readonly id: string, protected name: string) { }
+}
+
+interface EmployeeJSON {
+    id: string;
+    name: string;
+    department: string;
+    role: string;
+    manager?: string;
+}
+
+/** What a loaded employee’s department code and role name refer to. */
+interface Organization {
+    departments: Department[];
+    roles: Role[];
+}
+
+class Employee extends Person {
+    private _manager?: Employee;
+    private notes: string[] = [];
+
+    constructor(id: string, name: string, private department: Department, public role: Role) {
+        super(id, name);
+    }
+
+    public getElevatorPitch() {
+        return `Hello, my name is ${ this.name } and I work in ${ this.department.name }.`;
+    }
+
+    worksIn(department: Department): boolean {
+        return this.department === department;
+    }
+
+    moveTo(department: Department): void {
+        this.department = department;
+    }
+
+    get manager(): Employee | undefined {
+        return this._manager;
+    }
+
+    set manager(manager: Employee | undefined) {
+        if (manager && (manager === this || manager.reportsTo(this))) {
+            throw new RangeError(`${ this.id } can't report to ${ manager.id }, who reports to ${ this.id }`);
+        }
+        this._manager = manager;
+    }
+
+    /** Whether the employee reports to `manager`, directly or through other managers. */
+    reportsTo(manager: Employee): boolean {
+        for (let current = this.manager; current; current = current.manager) {
+            if (current === manager) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    addNote(note: string): void {
+        this.notes.push(note);
+    }
+
+    toJSON(): EmployeeJSON {
+        const json: EmployeeJSON = { id: this.id, name: this.name, department: this.department.code, role: this.role.name };
+        if (this.manager) {
+            json.manager = this.manager.id;
+        }
+        return json;
+    }
+
+    /** The manager is left for the caller to link, as it may not have been loaded yet. */
+    static fromJSON(json: EmployeeJSON, organization: Organization): Employee {
+        const department = organization.departments.filter(d => d.code === json.department)[0];
+        const role = organization.roles.filter(r => r.name === json.role)[0];
+        if (!department || !role) {
+            throw new RangeError(`${ json.id } refers to ${ department ? "a role" : "a department" } that doesn't exist`);
+        }
+        return new Employee(json.id, json.name, department, role);
+    }
+}
+
+let sales = new Department("SAL", "Sales");
+let howard = new Employee("E-1", "Howard", sales, manager);
+
+howard.getElevatorPitch();  // returns "Hello, my name is Howard and I work in Sales."
+howard.id = "E-2";  // Error TS2540: Cannot assign to 'id' because it is a read-only property.
+howard.name;    // Error TS2445: Property 'name' is protected and only accessible within class 'Person' and its subclasses.
+howard.notes;   // Error TS2341: Property 'notes' is private and only accessible within class 'Employee'.
+
+/**
+ * Renaming the department renames it for everybody in it, since they share the one Department:
+ */
+sales.name = "Sales and Marketing";
+howard.getElevatorPitch();  // returns "Hello, my name is Howard and I work in Sales and Marketing."
+
+/**
+ * ----------------
+ * The whole staff
+ * ----------------
+ * Personnel keeps track of everybody, by id, and answers queries, where every condition given must
+ * hold:
+ *
+ *      - department: works in that department,
+ *      - role: holds that role, or one below it in the hierarchy,
+ *      - reportsTo: reports to that manager, directly or through other managers.
+ */
+interface Query {
+    department?: Department;
+    role?: Role;
+    reportsTo?: Employee;
+}
+
+interface PersonnelJSON {
+    employees: EmployeeJSON[];
+}
+
+class Personnel {
+    private employees = new Map<string, Employee>();
+
+    hire(...employees: Employee[]): this {
+        for (const employee of employees) {
+            if (this.employees.has(employee.id)) {
+                throw new RangeError(`There is already an employee with id ${ employee.id }`);
+            }
+            this.employees.set(employee.id, employee);
+        }
+        return this;
+    }
+
+    get(id: string): Employee {
+        const employee = this.employees.get(id);
+        if (!employee) {
+            throw new RangeError(`There is no employee with id ${ id }`);
+        }
+        return employee;
+    }
+
+    query(query: Query = {}): Employee[] {
+        return Array.from(this.employees.values()).filter(employee =>
+            (!query.department || employee.worksIn(query.department)) &&
+            (!query.role || employee.role.is(query.role)) &&
+            (!query.reportsTo || employee.reportsTo(query.reportsTo)));
+    }
+
+    toJSON(): PersonnelJSON {
+        return { employees: Array.from(this.employees.values()).map(employee => employee.toJSON()) };
+    }
+
+    /**
+     * Employees are created first and linked to their managers afterwards, so that the order they
+     * come in doesn’t matter. Linking goes through the manager accessor, so managers that form a
+     * loop are refused here too.
+     */
+    static fromJSON(json: PersonnelJSON, organization: Organization): Personnel {
+        const personnel = new Personnel().hire(...json.employees.map(employee => Employee.fromJSON(employee, organization)));
+        for (const employee of json.employees.filter(employee => employee.manager !== undefined)) {
+            personnel.get(employee.id).manager = personnel.get(employee.manager!);
+        }
+        return personnel;
+    }
+}
+
+let engineering = new Department("ENG", "Engineering");
+let organization: Organization = { departments: [sales, engineering], roles: [staff, engineer, seniorEngineer, manager] };
+
+let grace = new Employee("E-10", "Grace", engineering, manager);
+let alan = new Employee("E-11", "Alan", engineering, seniorEngineer);
+let ada = new Employee("E-12", "Ada", engineering, engineer);
+let bob = new Employee("E-13", "Bob", sales, staff);
+
+alan.manager = grace;
+ada.manager = alan;
+
+let personnel = new Personnel().hire(grace, alan, ada, bob);
+let names = (employees: Employee[]) => employees.map(employee => employee.id);
+
+names(personnel.query({ department: engineering }));    // returns ['E-10', 'E-11', 'E-12']
+names(personnel.query({ role: engineer }));  // returns ['E-11', 'E-12']
+names(personnel.query({ reportsTo: grace }));   // returns ['E-11', 'E-12']
+names(personnel.query({ department: sales, role: engineer }));  // returns []
+
+/**
+ * Nobody can end up managing themselves, directly or through other managers:
+ */
+grace.manager = ada;    // throws RangeError
+ada.manager = ada;  // throws RangeError
+
+/**
+ * Moving an employee to another department is a change to that employee alone, so queries see it
+ * straight away:
+ */
+bob.moveTo(engineering);
+names(personnel.query({ department: engineering, role: staff }));   // returns ['E-10', 'E-11', 'E-12', 'E-13']
+bob.moveTo(sales);
+
+personnel.get("E-99");  // throws RangeError
+personnel.hire(new Employee("E-10", "Someone Else", sales, staff));   // throws RangeError
+
+/**
+ * A query can only use the conditions Query lists:
+ */
+personnel.query({ manager: grace });    // Error TS2353: Object literal may only specify known properties, and 'manager' does not exist in type 'Query'.
+
+/**
+ * -------------------
+ * Saving and loading
+ * -------------------
+ * private and protected are checked by the compiler, and are gone from the JavaScript it writes.
+ * JSON.stringify writes every property an object has, so left to itself it would write the private
+ * notes, and the whole department and role, over and over for everyone who shares them. Copying an
+ * employee into a plain object leaves its methods behind, toJSON included, and shows what that
+ * would look like:
+ */
+howard.addNote("Needs to delegate more");
+
+JSON.stringify({ ...howard });  // returns '{"id":"E-1","name":"Howard","department":{"code":"SAL","name":"Sales and Marketing"},"role":{"name":"Manager","parent":{"name":"Staff","permissions":["read wiki"]},"permissions":["approve leave"]},"notes":["Needs to delegate more"]}'
+
+/**
+ * So the classes decide for themselves, with toJSON, which JSON.stringify calls when it is there.
+ * The rule they follow is:
+ *
+ *      - public and readonly properties are written as they are,
+ *      - protected ones are written as well, as they belong to the class and its subclasses, and
+ *        saving and loading are done by the class,
+ *      - private ones are left out, unless the class needs them to rebuild the object,
+ *      - and other objects are written as their identifiers: departments by code, roles by name
+ *        and managers by id.
+ *
+ * The private department is needed to rebuild an employee, so it goes in, by its code. The private
+ * notes are not, so they stay out. The type of the JSON is spelled out in EmployeeJSON, so nothing
+ * is left out or added by mistake.
+ */
+JSON.stringify(howard); // returns '{"id":"E-1","name":"Howard","department":"SAL","role":"Manager"}'
+
+/**
+ * Saving the whole staff writes each employee that way, so the private notes never appear in the
+ * text:
+ */
+ada.addNote("Ready for promotion");
+
+let saved = JSON.stringify(personnel);
+
+saved.indexOf("promotion"); // returns -1
+(JSON.parse(saved) as PersonnelJSON).employees[2];  // returns { id: 'E-12', name: 'Ada', department: 'ENG', role: 'Engineer', manager: 'E-11' }
+
+/**
+ * Loading it again rebuilds the same staff, down to the departments and roles: they are the very
+ * objects the organization holds, not copies of them. Saving what was loaded gives the same JSON:
+ */
+let loaded = Personnel.fromJSON(JSON.parse(saved), organization);
+
+loaded.get("E-12").getElevatorPitch();  // returns "Hello, my name is Ada and I work in Engineering."
+loaded.get("E-12").role === engineer;   // returns true
+names(loaded.query({ reportsTo: loaded.get("E-10") })); // returns ['E-11', 'E-12']
+JSON.stringify(loaded) === saved;   // returns true
+
+/**
+ * JSON that refers to a department or role the organization doesn’t have can’t be loaded:
+ */
+Personnel.fromJSON({ employees: [{ id: "E-20", name: "Eve", department: "HR", role: "Staff" }] }, organization);  // throws RangeError
+
+/**
+ * Nor can JSON in which the managers form a loop:
+ */
+Personnel.fromJSON({
+    employees: [
+        { id: "E-30", name: "Ann", department: "ENG", role: "Manager", manager: "E-31" },
+        { id: "E-31", name: "Ben", department: "ENG", role: "Manager", manager: "E-30" }
+    ]
+}, organization);   // throws RangeError
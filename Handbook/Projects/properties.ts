@@ -0,0 +1,315 @@
+/**
+ * -------------------
+ * Guarded Properties
+ * -------------------
+ * Accessors, in Classes, guards an employee’s fullName with a setter that checks a passcode, and
+ * prints a message when the check fails. Every property guarded that way needs its own getter,
+ * setter and backing field, the check is written out by hand each time, and whoever made the bad
+ * write is never told: the program carries on as if the name had changed.
+ *
+ * This chapter declares guarded properties instead. Each property lists validators, which say what
+ * a good value looks like, and a policy, which says whether a change is allowed at all. A rejected
+ * write throws an error that says which property refused it and why, and other code can subscribe
+ * to the changes that do go through.
+ *
+ * --------
+ * Changes
+ * --------
+ * Every write is described as a change: the object, the property, and the value before and after.
+ * Policies decide on changes, and subscribers are told about them.
+ */
+interface Change<C, K extends keyof C> {
+    target: C;
+    property: K;
+    oldValue: C[K];
+    newValue: C[K];
+}
+
+/** Returns what is wrong with a value, or undefined if nothing is. */
+type Validator<T> = (value: T) => string | undefined;
+
+type Policy<C, K extends keyof C> = (change: Change<C, K>) => boolean;
+
+type Subscriber<C, K extends keyof C> = (change: Change<C, K>) => void;
+
+interface PropertyDefinition<C, K extends keyof C> {
+    /** The value the property has until it is first written. */
+    initial?: C[K];
+    validate?: Validator<C[K]>[];
+    authorize?: Policy<C, K>;
+}
+
+type Definitions<C> = { [K in keyof C]?: PropertyDefinition<C, K> };
+
+/**
+ * -------
+ * Errors
+ * -------
+ * A rejected write throws one of two errors, both PropertyErrors, so a caller can catch either kind
+ * or both. An invalid value lists everything that is wrong with it, not only the first problem.
+ */
+class PropertyError extends Error {
+    name = "PropertyError";
+
+    constructor (message: string, readonly target: object, readonly property: string) {
+        super(message);
+    }
+}
+
+class UnauthorizedError extends PropertyError {
+    name = "UnauthorizedError";
+
+    constructor (target: object, property: string) {
+        super(`Unauthorized update of ${ target.constructor.name }.${ property }`, target, property);
+    }
+}
+
+class InvalidValueError extends PropertyError {
+    name = "InvalidValueError";
+
+    constructor (target: object, property: string, readonly value: unknown, readonly problems: string[]) {
+        super(`${ target.constructor.name }.${ property } ${ problems.join(" and ") }`, target, property);
+    }
+}
+
+/**
+ * -----------
+ * Validators
+ * -----------
+ * A few validators cover most properties, and any function of the right type is a validator too:
+ */
+const nonEmpty: Validator<string> = value => value && value.trim() ? undefined : "can’t be empty";
+
+function maxLength(length: number): Validator<string> {
+    return value => value && value.length > length ? `can’t be longer than ${ length } characters` : undefined;
+}
+
+function pattern(expression: RegExp, description: string): Validator<string> {
+    return value => expression.test(value) ? undefined : `must be ${ description }`;
+}
+
+function range(minimum: number, maximum: number): Validator<number> {
+    return value => value >= minimum && value <= maximum ? undefined : `must be between ${ minimum } and ${ maximum }`;
+}
+
+/**
+ * ------------------------
+ * Defining the properties
+ * ------------------------
+ * defineProperties puts an accessor on the class’s prototype for each property it is given, in
+ * place of the getter and setter that would otherwise be written by hand. The values are kept out
+ * of sight, in a WeakMap from each object to its values, so nothing can bypass the setter, and an
+ * object that is no longer used takes its values with it.
+ *
+ * A write is checked against the policy first, and then against every validator. Only a write
+ * that passes both is stored, and subscribers hear about it only if the value actually changed.
+ */
+const values = new WeakMap<object, { [property: string]: unknown }>();
+const subscribers = new WeakMap<object, { [property: string]: Function[] }>();
+const guarded = new WeakMap<object, Set<string>>();
+
+function defineProperties<C>(ctor: new (...args: unknown[]) => C, definitions: Definitions<C>): void {
+    const names = guarded.get(ctor.prototype) || new Set<string>();
+    guarded.set(ctor.prototype, names);
+
+    for (const property of Object.keys(definitions) as (keyof C & string)[]) {
+        const definition: Definitions<C>[keyof C] = definitions[property];
+        names.add(property);
+
+        Object.defineProperty(ctor.prototype, property, {
+            configurable: true,
+            enumerable: true,
+            get() {
+                const own = values.get(this);
+                return own && own.hasOwnProperty(property) ? own[property] : definition.initial;
+            },
+            set(newValue) {
+                const change = { target: this, property, oldValue: this[property], newValue };
+                if (definition.authorize && !definition.authorize(change)) {
+                    throw new UnauthorizedError(this, property);
+                }
+                const problems = (definition.validate || []).map(validator => validator(newValue)).filter(problem => problem !== undefined);
+                if (problems.length > 0) {
+                    throw new InvalidValueError(this, property, newValue, problems);
+                }
+
+                values.set(this, { ...values.get(this), [property]: newValue });
+                if (change.oldValue !== newValue) {
+                    const listening = subscribers.get(this);
+                    (listening && listening[property] || []).slice().forEach(subscriber => subscriber(change));
+                }
+            }
+        });
+    }
+}
+
+/**
+ * Subscribing to a property that isn’t guarded would never report anything, so it is an error,
+ * rather than a subscription that silently stays quiet. Subscribing returns a function that
+ * unsubscribes again.
+ */
+function isGuarded(target: object, property: string): boolean {
+    for (let prototype = Object.getPrototypeOf(target); prototype; prototype = Object.getPrototypeOf(prototype)) {
+        const names = guarded.get(prototype);
+        if (names && names.has(property)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+function subscribe<C extends object, K extends keyof C & string>(target: C, property: K, subscriber: Subscriber<C, K>): () => void {
+    if (!isGuarded(target, property)) {
+        throw new TypeError(`${ target.constructor.name }.${ property } is not a guarded property`);
+    }
+    const listening = subscribers.get(target) || {};
+    subscribers.set(target, listening);
+    listening[property] = (listening[property] || []).concat(subscriber);
+
+    return () => {
+        listening[property] = listening[property].filter(s => s !== subscriber);
+    };
+}
+
+/**
+ * ------------------------
+ * The employee, once more
+ * ------------------------
+ * The Employee class now only declares its properties. Everything the setter in Accessors did, and
+ * more, is in the definitions. The fields are declared with declare, which gives them a type and
+ * nothing else. A plain field becomes a property of each object when the class is compiled with
+ * useDefineForClassFields, the default for ES2022 and later targets, and that property would hide
+ * the accessor on the prototype, so every check would be skipped. For the same reason the fields
+ * have no initializers: starting values go in the definitions instead.
+ */
+let passcode = "secret passcode";
+let hasPasscode = () => passcode == "secret passcode";
+
+class Employee {
+    declare fullName: string;
+    declare email: string;
+    declare salary: number;
+}
+
+defineProperties(Employee, {
+    fullName: {
+        validate: [nonEmpty, maxLength(40)],
+        authorize: hasPasscode
+    },
+    email: {
+        validate: [pattern(/^[^@\s]+@[^@\s]+$/, "an email address")]
+    },
+    salary: {
+        initial: 30000,
+        validate: [range(0, 1000000)],
+        authorize: change => change.newValue >= change.oldValue || hasPasscode()
+    }
+});
+
+let employee = new Employee();
+employee.fullName = "Ashwani Luhaniwal";
+if (employee.fullName) {
+    console.log(employee.fullName); // outputs "Ashwani Luhaniwal"
+}
+employee.salary;    // returns 30000
+
+/**
+ * Definitions are checked against the class: a validator must take the property’s type, and only
+ * properties the class has can be defined:
+ */
+defineProperties(Employee, { salary: { validate: [nonEmpty] } });   // Error TS2322: Type 'Validator<string>' is not assignable to type 'Validator<number>'.
+defineProperties(Employee, { fullname: { validate: [nonEmpty] } }); // Error TS2561: Object literal may only specify known properties, but 'fullname' does not exist in type 'Definitions<Employee>'. Did you mean to write 'fullName'?
+
+/**
+ * ----------------
+ * Rejected writes
+ * ----------------
+ * Without the passcode, changing the name throws, and the name stays as it was. A raise needs no
+ * passcode, but a cut does:
+ */
+passcode = "wrong passcode";
+
+employee.fullName = "Bob Smith";    // throws UnauthorizedError
+employee.fullName;  // returns "Ashwani Luhaniwal"
+
+employee.salary = 35000;
+employee.salary = 20000;    // throws UnauthorizedError
+
+try {
+    employee.salary = 20000;
+}
+catch (error) {
+    console.log(error.message); // outputs "Unauthorized update of Employee.salary"
+}
+
+/**
+ * Invalid values are refused even with the passcode, with every problem in the message:
+ */
+passcode = "secret passcode";
+
+employee.email = "ashwani at example.com";  // throws InvalidValueError
+
+try {
+    employee.fullName = " ";
+}
+catch (error) {
+    if (error instanceof InvalidValueError) {
+        console.log(error.problems);    // outputs ['can’t be empty']
+    }
+}
+
+try {
+    employee.salary = -1;
+}
+catch (error) {
+    console.log(error.message); // outputs "Employee.salary must be between 0 and 1000000"
+}
+
+/**
+ * ------------
+ * Subscribing
+ * ------------
+ * Subscribers hear about every change that is stored, with the value before and after it. Writing
+ * the value a property already has is allowed, but isn’t a change:
+ */
+let unsubscribe = subscribe(employee, "fullName", change => {
+    console.log(`${ change.property }: ${ change.oldValue } -> ${ change.newValue }`);
+});
+
+employee.fullName = "Ashwani K. Luhaniwal"; // outputs "fullName: Ashwani Luhaniwal -> Ashwani K. Luhaniwal"
+employee.fullName = "Ashwani K. Luhaniwal"; // outputs ""
+
+unsubscribe();
+employee.fullName = "Ashwani Luhaniwal";    // outputs ""
+
+/**
+ * Subscribers belong to one object, and a change passes through subscribers for its own property
+ * only. The property name is checked when compiling, and whether it is guarded when running:
+ */
+{
+    let other = new Employee();
+    subscribe(other, "salary", change => console.log(`raise of ${ change.newValue - change.oldValue }`));
+
+    employee.salary = 40000;    // outputs ""
+    other.salary = 32000;   // outputs "raise of 2000"
+}
+
+subscribe(employee, "fullname", () => { });  // Error TS2345: Argument of type '"fullname"' is not assignable to parameter of type 'keyof Employee'.
+
+class Contractor {
+    declare fullName: string;
+}
+
+subscribe(new Contractor(), "fullName", () => { }); // throws TypeError
+
+/**
+ * Guarded properties are inherited like any other accessor, so a subclass keeps its parent’s
+ * checks:
+ */
+class Manager extends Employee {
+    reports: Employee[] = [];
+}
+
+let manager = new Manager();
+manager.salary; // returns 30000
+manager.salary = 2000000;   // throws InvalidValueError
\ No newline at end of file
@@ -0,0 +1,287 @@
+/**
+ * ---------------------
+ * A Quadtree of Points
+ * ---------------------
+ * The Grid in Static Properties can tell how far one point is from its origin. To find the point
+ * closest to the origin, or every point within some distance of it, that is all we have: measure
+ * every point, one by one. With a few points that is fine; with tens of thousands, and a question
+ * asked over and over, it is not.
+ *
+ * A quadtree answers those questions by looking at only a small part of the points. It covers a
+ * rectangle of the plane and holds a handful of points. Once it holds too many, it splits into four
+ * quadrants, each a quadtree of its own, and hands its points down to them. A question about some
+ * part of the plane then only has to visit the quadrants that overlap it.
+ *
+ * ------------------------
+ * Points, boxes and grids
+ * ------------------------
+ * The building blocks are trimmed down from Geometry on a Grid: the point shape from Static
+ * Properties, the distance metrics, and bounding boxes, which gain a way to find the point inside
+ * them that is closest to a given point.
+ */
+interface Point {
+    x: number;
+    y: number;
+}
+
+type Metric = (a: Point, b: Point) => number;
+
+const euclidean: Metric = (a, b) => Math.sqrt((a.x - b.x) * (a.x - b.x) + (a.y - b.y) * (a.y - b.y));
+const manhattan: Metric = (a, b) => Math.abs(a.x - b.x) + Math.abs(a.y - b.y);
+
+class BoundingBox {
+    constructor (readonly min: Point, readonly max: Point) { }
+
+    get center(): Point {
+        return {x: (this.min.x + this.max.x) / 2, y: (this.min.y + this.max.y) / 2};
+    }
+
+    contains(point: Point) {
+        return point.x >= this.min.x && point.x <= this.max.x && point.y >= this.min.y && point.y <= this.max.y;
+    }
+
+    intersects(other: BoundingBox) {
+        return this.min.x <= other.max.x && other.min.x <= this.max.x && this.min.y <= other.max.y && other.min.y <= this.max.y;
+    }
+
+    /** The point of the box closest to `point`, which is `point` itself if the box contains it. */
+    clamp(point: Point): Point {
+        return {
+            x: Math.min(Math.max(point.x, this.min.x), this.max.x),
+            y: Math.min(Math.max(point.y, this.min.y), this.max.y)
+        };
+    }
+}
+
+/**
+ * -------------
+ * The quadtree
+ * -------------
+ * The tree is generic in the points it holds, so points that carry more than x and y come back out
+ * of a query with everything they went in with.
+ *
+ * Many copies of the same point could never be told apart by splitting, so below a certain depth a
+ * quadrant holds however many points it is given.
+ */
+const MAX_DEPTH = 16;
+
+class Quadtree<P extends Point = Point> {
+    private points: P[] = [];
+    private quadrants: Quadtree<P>[] | undefined;
+    private count = 0;
+
+    constructor (readonly bounds: BoundingBox, private capacity = 8, private depth = 0) { }
+
+    get size() {
+        return this.count;
+    }
+
+    /** Adds a point, unless it lies outside the tree’s bounds. */
+    insert(point: P): boolean {
+        if (!this.bounds.contains(point)) {
+            return false;
+        }
+        this.count++;
+        if (this.quadrants) {
+            return this.quadrantFor(point).insert(point);
+        }
+        this.points.push(point);
+        if (this.points.length > this.capacity && this.depth < MAX_DEPTH) {
+            this.split();
+        }
+        return true;
+    }
+
+    /** Every point in `range`. */
+    query(range: BoundingBox): P[] {
+        const found: P[] = [];
+        const visit = (tree: Quadtree<P>) => {
+            if (!tree.bounds.intersects(range)) {
+                return;
+            }
+            tree.points.forEach(point => {
+                if (range.contains(point)) {
+                    found.push(point);
+                }
+            });
+            (tree.quadrants || []).forEach(visit);
+        };
+        visit(this);
+        return found;
+    }
+
+    /**
+     * Every point no further than `radius` from `center`. The box around the circle is queried
+     * first, so only the points in it are measured.
+     */
+    within(center: Point, radius: number, metric: Metric = euclidean): P[] {
+        const range = new BoundingBox({x: center.x - radius, y: center.y - radius}, {x: center.x + radius, y: center.y + radius});
+        return this.query(range).filter(point => metric(center, point) <= radius);
+    }
+
+    /**
+     * The point closest to `target`, or undefined if the tree is empty. No point in a quadrant can
+     * be closer than the quadrant’s own closest point, so quadrants that can’t beat the best point
+     * found so far are skipped, and the nearest quadrants are searched first to find a good point
+     * early.
+     */
+    nearest(target: Point, metric: Metric = euclidean): P | undefined {
+        let best: P | undefined;
+        let bestDistance = Infinity;
+
+        const search = (tree: Quadtree<P>, distance: number) => {
+            if (distance >= bestDistance) {
+                return;
+            }
+            for (const point of tree.points) {
+                const d = metric(target, point);
+                if (d < bestDistance) {
+                    best = point;
+                    bestDistance = d;
+                }
+            }
+            (tree.quadrants || [])
+                .map(quadrant => ({ quadrant, distance: metric(target, quadrant.bounds.clamp(target)) }))
+                .sort((a, b) => a.distance - b.distance)
+                .forEach(next => search(next.quadrant, next.distance));
+        };
+        search(this, metric(target, this.bounds.clamp(target)));
+        return best;
+    }
+
+    private split() {
+        const { min, max, center } = this.bounds;
+        this.quadrants = [
+            new BoundingBox(min, center),
+            new BoundingBox({x: center.x, y: min.y}, {x: max.x, y: center.y}),
+            new BoundingBox({x: min.x, y: center.y}, {x: center.x, y: max.y}),
+            new BoundingBox(center, max)
+        ].map(bounds => new Quadtree<P>(bounds, this.capacity, this.depth + 1));
+
+        const points = this.points;
+        this.points = [];
+        points.forEach(point => this.quadrantFor(point).insert(point));
+    }
+
+    /** Points on a dividing line go to the quadrant on its right or below it. */
+    private quadrantFor(point: Point) {
+        const { center } = this.bounds;
+        return this.quadrants![(point.x < center.x ? 0 : 1) + (point.y < center.y ? 0 : 2)];
+    }
+}
+
+let tree = new Quadtree(new BoundingBox({x: 0, y: 0}, {x: 10, y: 10}), 2);
+
+tree.insert({x: 1, y: 1});  // returns true
+tree.insert({x: 8, y: 2});  // returns true
+tree.insert({x: 6, y: 7});  // returns true
+tree.insert({x: 12, y: 3}); // returns false
+tree.size;  // returns 3
+
+tree.query(new BoundingBox({x: 5, y: 0}, {x: 10, y: 10}));  // returns [{ x: 8, y: 2 }, { x: 6, y: 7 }]
+tree.nearest({x: 7, y: 5}); // returns { x: 6, y: 7 }
+tree.nearest({x: 7, y: 5}, manhattan);  // returns { x: 6, y: 7 }
+tree.within({x: 0, y: 0}, 5);   // returns [{ x: 1, y: 1 }]
+
+/**
+ * --------------------
+ * Grids and the index
+ * --------------------
+ * Grids ask their questions relative to their origin and in their own steps, so the Grid from
+ * Static Properties only has to turn steps into distances on the plane before handing the
+ * question to an index:
+ */
+class Grid {
+    static origin = {x: 0, y: 0};
+
+    constructor (public scale: number, public origin: Point = Grid.origin) { }
+
+    calculateDistanceFromOrigin(point: Point) {
+        return euclidean(point, this.origin) / this.scale;
+    }
+
+    /** The indexed point closest to this grid’s origin. */
+    closestToOrigin<P extends Point>(index: Quadtree<P>): P | undefined {
+        return index.nearest(this.origin);
+    }
+
+    /** The indexed points no more than `steps` of this grid’s steps from its origin. */
+    withinDistance<P extends Point>(index: Quadtree<P>, steps: number): P[] {
+        return index.within(this.origin, steps * this.scale);
+    }
+}
+
+let grid1 = new Grid(1.0);  // 1x scale
+let grid2 = new Grid(5.0);  // 5x scale
+let cities = new Quadtree<Point & { name: string }>(new BoundingBox({x: -100, y: -100}, {x: 100, y: 100}));
+
+cities.insert({name: "Ashford", x: 3, y: 4});
+cities.insert({name: "Bexley", x: -20, y: 10});
+cities.insert({name: "Crayford", x: 0, y: -12});
+
+grid1.closestToOrigin(cities).name; // returns Ashford
+grid1.withinDistance(cities, 15).map(city => city.name);    // returns ['Ashford', 'Crayford']
+grid2.withinDistance(cities, 5).map(city => city.name);     // returns ['Ashford', 'Bexley', 'Crayford']
+
+/**
+ * ----------------------------
+ * Tens of thousands of points
+ * ----------------------------
+ * To see what the tree saves, we index twenty thousand points scattered over a thousand by a
+ * thousand square. They come from a small seeded generator rather than Math.random, so every run
+ * scatters them the same way:
+ */
+function seededRandom(seed: number) {
+    return () => (seed = seed * 16807 % 2147483647) / 2147483647;
+}
+
+let random = seededRandom(42);
+let points: Point[] = [];
+for (let i = 0; i < 20000; i++) {
+    points.push({x: random() * 1000, y: random() * 1000});
+}
+
+let index = new Quadtree<Point>(new BoundingBox({x: 0, y: 0}, {x: 1000, y: 1000}));
+points.forEach(point => index.insert(point));
+
+index.size; // returns 20000
+
+/**
+ * Without an index, finding the point closest to a grid’s origin means measuring every point:
+ */
+let grid = new Grid(10, {x: 500, y: 500});
+let closest = points.reduce((best, point) =>
+    grid.calculateDistanceFromOrigin(point) < grid.calculateDistanceFromOrigin(best) ? point : best);
+
+/**
+ * The tree finds the same point with about a hundred measurements instead of twenty thousand.
+ * Handing it a metric that counts its calls shows how many it makes:
+ */
+let measurements = 0;
+let counting: Metric = (a, b) => {
+    measurements++;
+    return euclidean(a, b);
+};
+
+index.nearest(grid.origin, counting) === closest;   // returns true
+measurements;   // returns 102
+
+/**
+ * Range queries agree with measuring every point too:
+ */
+let nearby = grid.withinDistance(index, 3);
+let measured = points.filter(point => grid.calculateDistanceFromOrigin(point) <= 3);
+
+nearby.length === measured.length && measured.every(point => nearby.indexOf(point) !== -1);   // returns true
+
+/**
+ * A quadrant at the deepest level can end up holding a great many points, and a query collects
+ * them one at a time rather than spreading them all into a single call, which could run out of
+ * stack. Here two hundred thousand copies of one point all land in the same quadrant:
+ */
+let crowded = new Quadtree<Point>(new BoundingBox({x: 0, y: 0}, {x: 10, y: 10}));
+for (let i = 0; i < 200000; i++) {
+    crowded.insert({x: 5, y: 5});
+}
+
+crowded.query(new BoundingBox({x: 4, y: 4}, {x: 6, y: 6})).length;  // returns 200000
@@ -0,0 +1,321 @@
+/**
+ * ------------------
+ * Searching Strings
+ * ------------------
+ * Every SearchFunc in Function Types, in Interfaces, is written with source.search(subString). But
+ * search takes a regular expression, and turns a string into one, so the substring is not looked
+ * for as it is written: "a.c" matches "abc", and "+" isn’t a valid regular expression at all.
+ *
+ * This chapter builds search functions that match substrings literally, optionally ignoring case or
+ * matching whole words only, with a choice of algorithms, plus a fuzzy search that scores how well
+ * a query matches. Every one of them is still a SearchFunc.
+ */
+interface SearchFunc {
+    (source: string, subString: string): boolean;
+}
+
+let regexpSearch: SearchFunc = function(source, subString) {
+    return source.search(subString) > -1;
+};
+
+regexpSearch("abc", "a.c"); // returns true
+regexpSearch("a+b", "+");   // throws SyntaxError
+
+/**
+ * -----------
+ * Algorithms
+ * -----------
+ * A matcher finds the first place a pattern occurs in a source at or after a position, the way
+ * indexOf does, and returns -1 if there is none. The faster algorithms first work out tables from
+ * the pattern, which takes time in proportion to its length. Searching for every match calls the
+ * matcher once per match, so each algorithm compiles the pattern once, and returns a matcher that
+ * reuses what it worked out. indexOf itself is the first algorithm, and has nothing to work out:
+ */
+type Matcher = (source: string, from: number) => number;
+
+type Compile = (pattern: string) => Matcher;
+
+const indexOf: Compile = pattern => (source, from) => source.indexOf(pattern, from);
+
+/**
+ * Comparing the pattern at every position can take as many steps as the lengths of the source and
+ * pattern multiplied together, when most of the pattern matches over and over, as "aaab" does
+ * almost everywhere in "aaaaaaaa". Knuth–Morris–Pratt never looks at a character of the source
+ * twice. When a comparison fails, a table worked out from the pattern says how much of what has
+ * already matched could still be the start of a match, so it carries on from there.
+ */
+const knuthMorrisPratt: Compile = pattern => {
+    // fallback[i] is the length of the longest proper prefix of pattern[0..i] that is also a suffix.
+    const fallback = [0];
+    for (let i = 1, k = 0; i < pattern.length; i++) {
+        while (k > 0 && pattern[i] !== pattern[k]) {
+            k = fallback[k - 1];
+        }
+        if (pattern[i] === pattern[k]) {
+            k++;
+        }
+        fallback[i] = k;
+    }
+
+    return (source, from) => {
+        if (pattern.length === 0) {
+            return from <= source.length ? from : -1;
+        }
+        for (let i = from, k = 0; i < source.length; i++) {
+            while (k > 0 && source[i] !== pattern[k]) {
+                k = fallback[k - 1];
+            }
+            if (source[i] === pattern[k]) {
+                k++;
+            }
+            if (k === pattern.length) {
+                return i - k + 1;
+            }
+        }
+        return -1;
+    };
+};
+
+/**
+ * Boyer–Moore–Horspool compares the pattern from its last character backwards. Whatever character of
+ * the source lines up with the end of the pattern decides how far the pattern can move on: as far
+ * as its last occurrence earlier in the pattern allows, or the pattern’s whole length if it doesn’t
+ * occur. With long patterns over a varied source, most characters of the source are never looked at.
+ */
+const boyerMooreHorspool: Compile = pattern => {
+    const last = pattern.length - 1;
+    const shift = new Map<string, number>();
+    for (let i = 0; i < last; i++) {
+        shift.set(pattern[i], last - i);
+    }
+
+    return (source, from) => {
+        if (last < 0) {
+            return from <= source.length ? from : -1;
+        }
+        for (let i = Math.max(from, 0); i + last < source.length; i += shift.get(source[i + last]) || pattern.length) {
+            let j = last;
+            while (j >= 0 && source[i + j] === pattern[j]) {
+                j--;
+            }
+            if (j < 0) {
+                return i;
+            }
+        }
+        return -1;
+    };
+};
+
+const ALGORITHMS = {
+    "indexOf": indexOf,
+    "knuth-morris-pratt": knuthMorrisPratt,
+    "boyer-moore-horspool": boyerMooreHorspool
+};
+
+type Algorithm = keyof typeof ALGORITHMS;
+
+knuthMorrisPratt("aaab")("aaaaaaab", 0);    // returns 4
+boyerMooreHorspool("example")("here is a simple example", 0);   // returns 17
+boyerMooreHorspool("+")("a+b", 0);  // returns 1
+
+/**
+ * A compiled matcher can be used on any number of sources:
+ */
+let findCat = knuthMorrisPratt("cat");
+
+findCat("concatenate", 0);  // returns 3
+findCat("the cat", 0);  // returns 4
+
+/**
+ * -------------
+ * Search modes
+ * -------------
+ * Options choose the algorithm and how a match is made. Ignoring case folds both strings to lower
+ * case before matching. A whole-word match must not have a letter, digit or underscore on either
+ * side of it, so if the first occurrence is inside a longer word, the search carries on past it.
+ *
+ * Lower-casing a whole string can make it longer: "İ" becomes "i" followed by a combining dot. The
+ * positions of matches in the folded source would then no longer be positions in the source
+ * itself, so strings are folded one character at a time instead, and a character whose lower case
+ * is longer than it is stays as it is. Such characters only match themselves when case is ignored.
+ */
+interface SearchOptions {
+    algorithm?: Algorithm;
+    ignoreCase?: boolean;
+    wholeWord?: boolean;
+}
+
+function isWordCharacter(character: string | undefined): boolean {
+    return character !== undefined && /\w/.test(character);
+}
+
+/** The string in lower case, with every character in the same place as before. */
+function foldCase(text: string): string {
+    return text.split("").map(character => {
+        const lower = character.toLowerCase();
+        return lower.length === character.length ? lower : character;
+    }).join("");
+}
+
+/**
+ * The positions where `subString` occurs in `source`, overlapping occurrences included. They are
+ * found one at a time, as they are asked for, so a caller that only needs the first one doesn't
+ * pay for the rest.
+ */
+function* matches(source: string, subString: string, options: SearchOptions = {}): IterableIterator<number> {
+    const text = options.ignoreCase ? foldCase(source) : source;
+    const pattern = options.ignoreCase ? foldCase(subString) : subString;
+    const match = ALGORITHMS[options.algorithm || "indexOf"](pattern);
+
+    for (let at = match(text, 0); at > -1 && at <= text.length; at = match(text, at + 1)) {
+        const end = at + pattern.length;
+        if (!options.wholeWord || (!isWordCharacter(text[at - 1]) && !isWordCharacter(text[end]))) {
+            yield at;
+        }
+        if (pattern.length === 0 && at === text.length) {
+            break;
+        }
+    }
+}
+
+/** Every position where `subString` occurs in `source`, overlapping occurrences included. */
+function findAll(source: string, subString: string, options: SearchOptions = {}): number[] {
+    return Array.from(matches(source, subString, options));
+}
+
+/** A SearchFunc that searches with the given options, and stops at the first match. */
+function createSearch(options: SearchOptions = {}): SearchFunc {
+    return function(source, subString) {
+        return !matches(source, subString, options).next().done;
+    };
+}
+
+let mySearch: SearchFunc = createSearch();
+
+mySearch("a+b", "+");   // returns true
+mySearch("abc", "a.c"); // returns false
+
+findAll("the cat concatenates", "cat"); // returns [4, 11]
+findAll("The cat concatenates", "the", { ignoreCase: true });   // returns [0]
+findAll("the cat concatenates", "cat", { wholeWord: true });    // returns [4]
+findAll("aaaa", "aa", { algorithm: "knuth-morris-pratt" }); // returns [0, 1, 2]
+findAll("İstanbul Cat", "cat", { ignoreCase: true });  // returns [9]
+
+let wordSearch = createSearch({ ignoreCase: true, wholeWord: true });
+
+wordSearch("Concatenate the Cat", "cat");   // returns true
+wordSearch("Concatenate", "cat");   // returns false
+
+/**
+ * Any algorithm can be combined with any mode, and every combination is a SearchFunc, so code
+ * written against SearchFunc can be handed whichever suits its data:
+ */
+createSearch({ algorithm: "boyer-moore-horspool", wholeWord: true })("1+1=2, not 11", "1");  // returns true
+
+/**
+ * The three algorithms find the same matches, also in a long source. Here, the seeded generator of
+ * A Quadtree of Points writes a hundred thousand characters from a small alphabet, which makes for
+ * many near misses:
+ */
+function seededRandom(seed: number) {
+    return () => (seed = seed * 16807 % 2147483647) / 2147483647;
+}
+
+let random = seededRandom(7);
+let longSource = "";
+for (let i = 0; i < 100000; i++) {
+    longSource += "abc"[Math.floor(random() * 3)];
+}
+
+let positions = (Object.keys(ALGORITHMS) as Algorithm[]).map(algorithm => findAll(longSource, "abcabca", { algorithm }).join());
+
+positions[0] !== "" && positions.every(found => found === positions[0]);   // returns true
+
+/**
+ * A SearchFunc only wants to know whether there is a match, so it stops at the first one, rather
+ * than collecting every match in the source. Matches that a whole-word search turns down don't
+ * count, so it goes on past them, here past every "abc" in the long source to the one at its end:
+ */
+createSearch()(longSource, "abc");  // returns true
+createSearch({ wholeWord: true })(longSource + " abc", "abc");  // returns true
+createSearch({ wholeWord: true })(longSource, "abc");   // returns false
+
+/**
+ * -------------
+ * Fuzzy search
+ * -------------
+ * A fuzzy search matches a query whose characters appear in the source in order, but not
+ * necessarily next to each other, the way "tsc" matches "TypeScript Compiler". Some matches are
+ * better than others, so each one gets a score:
+ *
+ *      - every character of the query that is found scores one point,
+ *      - a character right after the previous one scores two more,
+ *      - a character at the start of a word scores three more,
+ *      - and each character skipped since the previous match costs one, up to three per gap.
+ *
+ * Characters are matched as early as possible and case is ignored, folding one character at a
+ * time as in findAll.
+ */
+const FUZZY = { found: 1, consecutive: 2, wordStart: 3, maximumGapPenalty: 3 };
+
+/** How well `query` matches `source`, or undefined if it doesn’t match at all. */
+function fuzzyScore(source: string, query: string): number | undefined {
+    const text = foldCase(source);
+    let score = 0;
+    let previous = -1;
+
+    for (const character of foldCase(query)) {
+        const at = text.indexOf(character, previous + 1);
+        if (at === -1) {
+            return undefined;
+        }
+        score += FUZZY.found;
+        if (previous > -1 && at === previous + 1) {
+            score += FUZZY.consecutive;
+        }
+        if (!isWordCharacter(text[at - 1]) || (source[at] !== text[at] && source[at - 1] === text[at - 1])) {
+            score += FUZZY.wordStart;
+        }
+        if (previous > -1) {
+            score -= Math.min(at - previous - 1, FUZZY.maximumGapPenalty);
+        }
+        previous = at;
+    }
+    return score;
+}
+
+/**
+ * An upper case letter after a lower case one counts as the start of a word too, so the S of
+ * TypeScript is one:
+ */
+fuzzyScore("TypeScript Compiler", "tsc");   // returns 8
+fuzzyScore("TypeScript Compiler", "typ");   // returns 10
+fuzzyScore("TypeScript Compiler", "xyz");   // returns undefined
+
+/**
+ * A fuzzy SearchFunc accepts a match scoring at least some minimum, and ranking puts the best
+ * matches first, keeping the original order among equal scores:
+ */
+function createFuzzySearch(minimumScore = 0): SearchFunc {
+    return function(source, subString) {
+        const score = fuzzyScore(source, subString);
+        return score !== undefined && score >= minimumScore;
+    };
+}
+
+function rank(sources: string[], query: string): string[] {
+    return sources
+        .map((source, index) => ({ source, index, score: fuzzyScore(source, query) }))
+        .filter(candidate => candidate.score !== undefined)
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .map(candidate => candidate.source);
+}
+
+let fuzzySearch = createFuzzySearch(5);
+
+fuzzySearch("Boyer-Moore-Horspool", "bmh"); // returns true
+fuzzySearch("submachine", "bmh");   // returns false
+
+let files = ["tools/site/render.ts", "tools/playground/runner.ts", "Handbook/Projects/search.ts", "README.md"];
+
+rank(files, "pr");  // returns ['Handbook/Projects/search.ts', 'tools/playground/runner.ts']
\ No newline at end of file
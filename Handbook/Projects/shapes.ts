@@ -0,0 +1,398 @@
+/**
+ * ---------------
+ * Drawing Shapes
+ * ---------------
+ * Extending Interfaces, in Interfaces, builds a Square out of a Shape with a color and a PenStroke
+ * with a width, but only ever fills one in with an assertion, and nothing looks at it afterwards.
+ * This chapter gives the interfaces real implementations: squares, rectangles, circles and polygons
+ * that know their area and perimeter, and draw themselves as SVG in their color, with a pen of their
+ * width.
+ *
+ * ---------------
+ * The interfaces
+ * ---------------
+ * The interfaces are the ones from Extending Interfaces. Every shape here is drawn with a pen, so the
+ * style of a shape is both a Shape and a PenStroke:
+ */
+interface Shape {
+    color: string;
+}
+interface PenStroke {
+    penWidth: number;
+}
+interface Square extends Shape, PenStroke {
+    sideLength: number;
+}
+
+type Style = Shape & PenStroke;
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+/** The upright rectangle a shape fits in, pen included. */
+interface Bounds {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * -----------
+ * SVG output
+ * -----------
+ * SVG is text, so drawing a shape means writing an element. Two helpers keep the output tidy:
+ * numbers are rounded so that circles don’t come out with sixteen decimal places, and attribute
+ * values are escaped, as a color is just a string and could contain anything.
+ */
+function svgNumber(value: number): string {
+    return String(Math.round(value * 1000) / 1000);
+}
+
+function svgAttributes(attributes: { [name: string]: string | number }): string {
+    return Object.keys(attributes).map(name => {
+        const value = attributes[name];
+        const text = typeof value === "number" ? svgNumber(value) : value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+        return ` ${ name }="${ text }"`;
+    }).join("");
+}
+
+/**
+ * ----------------
+ * Drawable shapes
+ * ----------------
+ * Every concrete shape implements both interfaces through a common base class. The base class draws
+ * the outline in the shape’s color, leaving the inside empty, and leaves the geometry to each shape.
+ *
+ * Sizes, of pens and of shapes alike, may be zero, but a negative size would give a negative area
+ * and bounds that are inside out, so only finite sizes of zero or more are accepted. Sizes can be
+ * changed after a shape is made, so they are kept behind accessors that check them every time:
+ */
+function checkSize(size: number, what: string): number {
+    if (!(size >= 0 && isFinite(size))) {
+        throw new RangeError(`${ what } can't be ${ size }`);
+    }
+    return size;
+}
+
+abstract class DrawnShape implements Shape, PenStroke {
+    color: string;
+    private _penWidth: number;
+
+    constructor (style: Partial<Style> = {}) {
+        this.color = style.color || "black";
+        this.penWidth = style.penWidth === undefined ? 1 : style.penWidth;
+    }
+
+    get penWidth() {
+        return this._penWidth;
+    }
+
+    set penWidth(width: number) {
+        this._penWidth = checkSize(width, "The width of a pen");
+    }
+
+    abstract area(): number;
+    abstract perimeter(): number;
+
+    /** Half the pen falls outside the outline, so it is added on every side. */
+    bounds(): Bounds {
+        const { x, y, width, height } = this.outline();
+        const half = this.penWidth / 2;
+        return { x: x - half, y: y - half, width: width + this.penWidth, height: height + this.penWidth };
+    }
+
+    toSVG(): string {
+        const { name, attributes } = this.element();
+        return `<${ name }${ svgAttributes({ ...attributes, fill: "none", stroke: this.color, "stroke-width": this.penWidth }) }/>`;
+    }
+
+    /** The bounds of the outline itself, without the pen. */
+    protected abstract outline(): Bounds;
+    protected abstract element(): { name: string; attributes: { [name: string]: string | number } };
+}
+
+class RectangleShape extends DrawnShape {
+    protected _width: number;
+    protected _height: number;
+
+    constructor (public position: Point, width: number, height: number, style?: Partial<Style>) {
+        super(style);
+        this.width = width;
+        this.height = height;
+    }
+
+    get width() {
+        return this._width;
+    }
+
+    set width(width: number) {
+        this._width = checkSize(width, "The width of a rectangle");
+    }
+
+    get height() {
+        return this._height;
+    }
+
+    set height(height: number) {
+        this._height = checkSize(height, "The height of a rectangle");
+    }
+
+    area() {
+        return this.width * this.height;
+    }
+
+    perimeter() {
+        return 2 * (this.width + this.height);
+    }
+
+    protected outline() {
+        return { x: this.position.x, y: this.position.y, width: this.width, height: this.height };
+    }
+
+    protected element() {
+        return { name: "rect", attributes: { x: this.position.x, y: this.position.y, width: this.width, height: this.height } };
+    }
+}
+
+/**
+ * A square is a rectangle whose sides are all the same length, and it is also exactly the Square
+ * of Extending Interfaces. Setting either side of a square sets both, so it stays a square:
+ */
+class SquareShape extends RectangleShape implements Square {
+    constructor (position: Point, sideLength: number, style?: Partial<Style>) {
+        super(position, checkSize(sideLength, "The side of a square"), sideLength, style);
+    }
+
+    get sideLength() {
+        return this.width;
+    }
+
+    set sideLength(length: number) {
+        this._width = this._height = checkSize(length, "The side of a square");
+    }
+
+    get width() {
+        return this._width;
+    }
+
+    set width(width: number) {
+        this.sideLength = width;
+    }
+
+    get height() {
+        return this._height;
+    }
+
+    set height(height: number) {
+        this.sideLength = height;
+    }
+}
+
+class CircleShape extends DrawnShape {
+    private _radius: number;
+
+    constructor (public center: Point, radius: number, style?: Partial<Style>) {
+        super(style);
+        this.radius = radius;
+    }
+
+    get radius() {
+        return this._radius;
+    }
+
+    set radius(radius: number) {
+        this._radius = checkSize(radius, "The radius of a circle");
+    }
+
+    area() {
+        return Math.PI * this.radius * this.radius;
+    }
+
+    perimeter() {
+        return 2 * Math.PI * this.radius;
+    }
+
+    protected outline() {
+        return { x: this.center.x - this.radius, y: this.center.y - this.radius, width: 2 * this.radius, height: 2 * this.radius };
+    }
+
+    protected element() {
+        return { name: "circle", attributes: { cx: this.center.x, cy: this.center.y, r: this.radius } };
+    }
+}
+
+/**
+ * A polygon is any closed run of straight edges. Its area comes from the shoelace formula, which
+ * adds up the signed area under each edge, so it works for any polygon whose edges don’t cross.
+ * A point that isn’t at finite coordinates would spoil the area and the bounds alike, so the points
+ * are checked, and copied, so that they can’t be changed afterwards.
+ */
+class PolygonShape extends DrawnShape {
+    readonly points: ReadonlyArray<Readonly<Point>>;
+
+    constructor (points: Point[], style?: Partial<Style>) {
+        super(style);
+        if (points.length < 3) {
+            throw new RangeError("A polygon needs at least three points");
+        }
+        this.points = points.map(({ x, y }) => {
+            if (!isFinite(x) || !isFinite(y)) {
+                throw new RangeError(`A polygon can't have a corner at ${ x },${ y }`);
+            }
+            return { x, y };
+        });
+    }
+
+    /** A polygon with equal sides and angles, its corners `radius` from the center, one at the top. */
+    static regular(sides: number, center: Point, radius: number, style?: Partial<Style>) {
+        if (!Number.isInteger(sides)) {
+            throw new RangeError(`A polygon can't have ${ sides } sides`);
+        }
+        checkSize(radius, "The radius of a polygon");
+        const points: Point[] = [];
+        for (let i = 0; i < sides; i++) {
+            const angle = 2 * Math.PI * i / sides;
+            points.push({ x: center.x + radius * Math.sin(angle), y: center.y - radius * Math.cos(angle) });
+        }
+        return new PolygonShape(points, style);
+    }
+
+    area() {
+        let twice = 0;
+        this.edges().forEach(([a, b]) => twice += a.x * b.y - b.x * a.y);
+        return Math.abs(twice) / 2;
+    }
+
+    perimeter() {
+        return this.edges().reduce((sum, [a, b]) => sum + Math.sqrt((b.x - a.x) * (b.x - a.x) + (b.y - a.y) * (b.y - a.y)), 0);
+    }
+
+    protected outline() {
+        const xs = this.points.map(p => p.x);
+        const ys = this.points.map(p => p.y);
+        const x = Math.min(...xs);
+        const y = Math.min(...ys);
+        return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+    }
+
+    protected element() {
+        return { name: "polygon", attributes: { points: this.points.map(p => `${ svgNumber(p.x) },${ svgNumber(p.y) }`).join(" ") } };
+    }
+
+    private edges(): [Readonly<Point>, Readonly<Point>][] {
+        return this.points.map((point, i): [Readonly<Point>, Readonly<Point>] => [point, this.points[(i + 1) % this.points.length]]);
+    }
+}
+
+let square = new SquareShape({x: 0, y: 0}, 10, {color: "blue", penWidth: 5});
+
+square.area();  // returns 100
+square.perimeter(); // returns 40
+square.toSVG(); // returns '<rect x="0" y="0" width="10" height="10" fill="none" stroke="blue" stroke-width="5"/>'
+
+let circle = new CircleShape({x: 20, y: 5}, 5, {color: "red"});
+
+circle.area().toFixed(2);   // returns 78.54
+circle.toSVG(); // returns '<circle cx="20" cy="5" r="5" fill="none" stroke="red" stroke-width="1"/>'
+
+let triangle = new PolygonShape([{x: 0, y: 0}, {x: 4, y: 0}, {x: 0, y: 3}], {color: "green", penWidth: 0.5});
+
+triangle.area();    // returns 6
+triangle.perimeter();   // returns 12
+triangle.toSVG();   // returns '<polygon points="0,0 4,0 0,3" fill="none" stroke="green" stroke-width="0.5"/>'
+
+let hexagon = PolygonShape.regular(6, {x: 0, y: 0}, 10);
+
+hexagon.perimeter().toFixed(2);  // returns 60.00
+hexagon.area().toFixed(2);  // returns 259.81
+
+new PolygonShape([{x: 0, y: 0}, {x: 1, y: 1}]);  // throws RangeError
+new CircleShape({x: 0, y: 0}, 1, {penWidth: -1});   // throws RangeError
+new CircleShape({x: 0, y: 0}, -1);  // throws RangeError
+new RectangleShape({x: 0, y: 0}, 10, NaN);  // throws RangeError
+new SquareShape({x: 0, y: 0}, -10); // throws RangeError
+new PolygonShape([{x: 0, y: 0}, {x: 1, y: NaN}, {x: 0, y: 1}]);    // throws RangeError
+PolygonShape.regular(6, {x: 0, y: 0}, -10); // throws RangeError
+
+/**
+ * Changing a size later is checked the same way, and a refused size leaves the shape as it was:
+ */
+let rectangle = new RectangleShape({x: 0, y: 0}, 10, 5);
+
+rectangle.width = -5;   // throws RangeError
+circle.radius = Infinity;   // throws RangeError
+rectangle.penWidth = -1;    // throws RangeError
+rectangle.area();   // returns 50
+
+/**
+ * A square only ever changes as a whole:
+ */
+let tile = new SquareShape({x: 0, y: 0}, 2);
+
+tile.height = 3;
+tile.sideLength;    // returns 3
+tile.toSVG();   // returns '<rect x="0" y="0" width="3" height="3" fill="none" stroke="black" stroke-width="1"/>'
+
+/**
+ * Colors are written into the SVG as they are given, escaped so that they can’t break out of the
+ * attribute:
+ */
+new RectangleShape({x: 0, y: 0}, 2, 1, {color: "\"/><script>"}).toSVG();    // returns '<rect x="0" y="0" width="2" height="1" fill="none" stroke="&quot;/>&lt;script>" stroke-width="1"/>'
+
+/**
+ * ----------------
+ * A whole picture
+ * ----------------
+ * An SVG document needs to know which part of the plane to show. The bounds of each shape include
+ * its pen, so the picture can be fitted to all of them without cutting off thick outlines. A
+ * drawing without shapes has nothing to fit, so it shows an empty box at the origin:
+ */
+function drawing(...shapes: DrawnShape[]): string {
+    const boxes = shapes.length > 0 ? shapes.map(shape => shape.bounds()) : [{ x: 0, y: 0, width: 0, height: 0 }];
+    const left = Math.min(...boxes.map(b => b.x));
+    const top = Math.min(...boxes.map(b => b.y));
+    const right = Math.max(...boxes.map(b => b.x + b.width));
+    const bottom = Math.max(...boxes.map(b => b.y + b.height));
+    const viewBox = [left, top, right - left, bottom - top].map(svgNumber).join(" ");
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${ viewBox }">`,
+        ...shapes.map(shape => `  ${ shape.toSVG() }`),
+        `</svg>`
+    ].join("\n");
+}
+
+square.bounds();    // returns { x: -2.5, y: -2.5, width: 15, height: 15 }
+
+console.log(drawing());  // outputs '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 0 0"> </svg>'
+console.log(drawing(square, circle));   // outputs '<svg xmlns="http://www.w3.org/2000/svg" viewBox="-2.5 -2.5 28 15"> <rect x="0" y="0" width="10" height="10" fill="none" stroke="blue" stroke-width="5"/> <circle cx="20" cy="5" r="5" fill="none" stroke="red" stroke-width="1"/> </svg>'
+
+/**
+ * ------------------------
+ * Squares from interfaces
+ * ------------------------
+ * The squares of Extending Interfaces are plain objects that only claim to be Squares. Anything with
+ * the members of a Square has everything needed to draw one, so they can be drawn as they are:
+ */
+function drawSquare(square: Square, position: Point = {x: 0, y: 0}): string {
+    return new SquareShape(position, square.sideLength, square).toSVG();
+}
+
+let square1 = <Square>{};
+square1.color = "red";
+square1.sideLength = 10;
+square1.penWidth = 5.0;
+
+drawSquare(square1);    // returns '<rect x="0" y="0" width="10" height="10" fill="none" stroke="red" stroke-width="5"/>'
+
+/**
+ * Because SquareShape implements Square, the reverse holds too: a drawable square can go anywhere
+ * a Square is expected, and changing its side length resizes it:
+ */
+let resized: Square = square;
+resized.sideLength = 4;
+
+square.toSVG(); // returns '<rect x="0" y="0" width="4" height="4" fill="none" stroke="blue" stroke-width="5"/>'
\ No newline at end of file
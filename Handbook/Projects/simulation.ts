@@ -0,0 +1,345 @@
+/**
+ * --------------------
+ * Animals on the Move
+ * --------------------
+ * Inheritance, in Classes, overrides Animal’s move in Snake and Horse, and calls it through a
+ * variable typed as Animal to show that the overriding method is the one that runs. But all the
+ * methods do is log, so it makes no difference which one runs, beyond the words that are printed.
+ *
+ * This chapter puts the animals on a grid, in a world that moves them one step at a time. How far
+ * an animal goes in a step, and what it does when it runs into the edge of the world or into
+ * another animal, is up to its class. The world itself only ever deals with Animals, and every
+ * movement goes into a log, from which a run can be replayed without running it again.
+ *
+ * -------------------
+ * Arena and headings
+ * -------------------
+ * The world is an arena: a grid of square cells, each scale meters wide, with at most one animal in
+ * each cell. It is called an arena so as not to be mistaken for the Grid of Static Properties,
+ * which measures distances on an endless plane. Animals face one of four headings, north being up,
+ * and move in straight lines:
+ */
+interface Point {
+    x: number;
+    y: number;
+}
+
+type Heading = "north" | "east" | "south" | "west";
+
+const HEADINGS: Heading[] = ["north", "east", "south", "west"];
+
+const STEPS: { [heading in Heading]: Point } = {
+    north: { x: 0, y: 1 },
+    east: { x: 1, y: 0 },
+    south: { x: 0, y: -1 },
+    west: { x: -1, y: 0 }
+};
+
+/** The heading after some quarter turns clockwise, or counterclockwise if negative. */
+function turn(heading: Heading, quarterTurns: number): Heading {
+    return HEADINGS[((HEADINGS.indexOf(heading) + quarterTurns) % 4 + 4) % 4];
+}
+
+class Arena {
+    constructor(readonly columns: number, readonly rows: number, readonly scale: number) {
+        if (!(Number.isInteger(columns) && columns >= 1) || !(Number.isInteger(rows) && rows >= 1) || !(scale > 0)) {
+            throw new RangeError(`An arena can't be ${ columns } by ${ rows } cells of ${ scale }m`);
+        }
+    }
+
+    contains(point: Point): boolean {
+        return point.x >= 0 && point.x < this.columns && point.y >= 0 && point.y < this.rows;
+    }
+
+    /** How many whole cells an animal gets through in so many meters. */
+    cells(meters: number): number {
+        return Math.floor(meters / this.scale);
+    }
+}
+
+turn("north", 1);   // returns east
+turn("north", -1);  // returns west
+new Arena(10, 2.5, 5);  // throws RangeError
+new Arena(NaN, 10, 5);  // throws RangeError
+new Arena(10, 10, 0);   // throws RangeError
+
+/**
+ * --------
+ * Animals
+ * --------
+ * Animal is abstract now: an animal has a name, a position and a heading, but its speed, in meters
+ * per step, and its gait are left to each kind of animal. So is what it does when something is in
+ * its way, though by default it turns around.
+ */
+type Obstacle = { kind: "edge" } | { kind: "animal"; animal: Animal };
+
+abstract class Animal {
+    constructor(readonly name: string, public position: Point, public heading: Heading) { }
+
+    abstract readonly speed: number;
+    abstract gait(): string;
+
+    blocked(obstacle: Obstacle): void {
+        this.heading = turn(this.heading, 2);
+    }
+}
+
+/**
+ * The speeds are the distances Snake and Horse moved by default in Inheritance. A snake turns to
+ * its left when it is blocked, and so works its way around the edge of the world. A horse turns
+ * around, as any animal does.
+ */
+class Snake extends Animal {
+    readonly speed = 5;
+
+    gait() {
+        return "Slithering...";
+    }
+
+    blocked(obstacle: Obstacle) {
+        this.heading = turn(this.heading, -1);
+    }
+}
+
+class Horse extends Animal {
+    readonly speed = 45;
+
+    gait() {
+        return "Galloping...";
+    }
+}
+
+/**
+ * A dog barks at animals in its way, without moving aside, and turns right at the edge of the world:
+ */
+class Dog extends Animal {
+    readonly speed = 10;
+
+    gait() {
+        return "Running...";
+    }
+
+    blocked(obstacle: Obstacle) {
+        if (obstacle.kind === "animal") {
+            console.log(`Woof! Woof! at ${ obstacle.animal.name }`);
+        }
+        else {
+            this.heading = turn(this.heading, 1);
+        }
+    }
+}
+
+/**
+ * Every kind of animal has to say how fast it is:
+ */
+// Error TS2515: Non-abstract class 'Cat' does not implement inherited abstract member speed from class 'Animal'.
+class Cat extends Animal {
+    gait() {
+        return "Prowling...";
+    }
+}
+
+/**
+ * ----------
+ * The world
+ * ----------
+ * In each step, every animal moves in turn, in the order it was added. It moves cell by cell along
+ * its heading, as far as its speed takes it, and stops before the first cell that is off the arena
+ * or taken by another animal, which is then told what blocked it. The world asks only the Animal
+ * for all of this, so a new kind of animal needs no change to the world.
+ *
+ * Each move is recorded, with where the animal started and ended, how far it went, which way it is
+ * heading afterwards, and what it ran into.
+ */
+interface Movement {
+    step: number;
+    name: string;
+    from: Point;
+    to: Point;
+    meters: number;
+    heading: Heading;
+    blockedBy?: string;
+}
+
+/** Where every animal is and which way it is heading, by name. */
+interface Snapshot {
+    [name: string]: { position: Point; heading: Heading };
+}
+
+class World {
+    private animals: Animal[] = [];
+    private steps = 0;
+    readonly log: Movement[] = [];
+
+    constructor(readonly arena: Arena) { }
+
+    add(...animals: Animal[]): this {
+        for (const animal of animals) {
+            if (!Number.isInteger(animal.position.x) || !Number.isInteger(animal.position.y)) {
+                throw new RangeError(`${ animal.name } has to start in a cell, not between cells`);
+            }
+            if (!this.arena.contains(animal.position)) {
+                throw new RangeError(`${ animal.name } can't start off the arena`);
+            }
+            const other = this.at(animal.position);
+            if (other || this.animals.some(a => a.name === animal.name)) {
+                throw new RangeError(other ? `${ animal.name } can't start where ${ other.name } is` : `There is already an animal called ${ animal.name }`);
+            }
+            this.animals.push(animal);
+        }
+        return this;
+    }
+
+    at(point: Point): Animal | undefined {
+        return this.animals.filter(animal => animal.position.x === point.x && animal.position.y === point.y)[0];
+    }
+
+    snapshot(): Snapshot {
+        const snapshot: Snapshot = {};
+        this.animals.forEach(animal => snapshot[animal.name] = { position: { ...animal.position }, heading: animal.heading });
+        return snapshot;
+    }
+
+    step(): Movement[] {
+        this.steps++;
+        return this.animals.map(animal => {
+            const from = { ...animal.position };
+            let obstacle: Obstacle | undefined;
+            let moved = 0;
+
+            while (moved < this.arena.cells(animal.speed)) {
+                const step = STEPS[animal.heading];
+                const next = { x: animal.position.x + step.x, y: animal.position.y + step.y };
+                const other = this.at(next);
+                if (!this.arena.contains(next) || other) {
+                    obstacle = other ? { kind: "animal", animal: other } : { kind: "edge" };
+                    break;
+                }
+                animal.position = next;
+                moved++;
+            }
+            if (obstacle) {
+                animal.blocked(obstacle);
+            }
+
+            const movement: Movement = { step: this.steps, name: animal.name, from, to: { ...animal.position }, meters: moved * this.arena.scale, heading: animal.heading };
+            if (obstacle) {
+                movement.blockedBy = obstacle.kind === "animal" ? obstacle.animal.name : "the edge";
+            }
+            this.log.push(movement);
+            return movement;
+        });
+    }
+
+    run(steps: number): Movement[] {
+        const movements: Movement[] = [];
+        for (let i = 0; i < steps; i++) {
+            movements.push(...this.step());
+        }
+        return movements;
+    }
+
+    /**
+     * Tells the story of some movements the way Inheritance did, one line per gait and per move. The
+     * gait comes from the animal itself, so every animal that moved has to be in this world.
+     */
+    narrate(movements: Movement[]): void {
+        for (const movement of movements) {
+            const animal = this.animals.filter(a => a.name === movement.name)[0];
+            if (!animal) {
+                throw new RangeError(`${ movement.name } is not in this world, so its movements can't be narrated here`);
+            }
+            console.log(animal.gait());
+            console.log(`${ movement.name } moved ${ movement.meters }m.${ movement.blockedBy ? ` Blocked by ${ movement.blockedBy }.` : "" }`);
+        }
+    }
+}
+
+/**
+ * ------------
+ * A first run
+ * ------------
+ * In an arena of ten by ten cells, five meters each, a snake gets through one cell a step and a horse
+ * through nine. The horse is stopped by the edge of the world after its first step, and turns
+ * around:
+ */
+let sam = new Snake("Sammy the Python", { x: 0, y: 0 }, "east");
+let tom: Animal = new Horse("Tommy the Palomino", { x: 0, y: 5 }, "east");
+
+let world = new World(new Arena(10, 10, 5)).add(sam, tom);
+let start = world.snapshot();
+
+world.narrate(world.step());    // outputs "Slithering... Sammy the Python moved 5m. Galloping... Tommy the Palomino moved 45m."
+world.narrate(world.step());    // outputs "Slithering... Sammy the Python moved 5m. Galloping... Tommy the Palomino moved 0m. Blocked by the edge."
+tom.heading;    // returns west
+world.step()[1].to; // returns { x: 0, y: 5 }
+
+/**
+ * The snake follows the edge of the world around, turning left at each corner:
+ */
+world.run(10).filter(movement => movement.name === sam.name && movement.blockedBy).map(movement => movement.to);   // returns [{ x: 9, y: 0 }]
+sam.heading;    // returns north
+
+/**
+ * Animals can’t start off the arena, between cells, on top of each other, or with a name already
+ * taken:
+ */
+world.add(new Dog("Rex", { x: 10, y: 0 }, "north"));    // throws RangeError
+world.add(new Dog("Rex", { x: 2.5, y: 0 }, "north"));   // throws RangeError
+world.add(new Dog("Rex", tom.position, "north"));   // throws RangeError
+world.add(new Dog("Sammy the Python", { x: 5, y: 5 }, "north"));    // throws RangeError
+
+/**
+ * And a world can only narrate the movements of its own animals:
+ */
+new World(new Arena(10, 10, 5)).narrate(world.log.slice(0, 1));  // throws RangeError
+
+/**
+ * -----------
+ * Collisions
+ * -----------
+ * A dog running at a horse stops in the cell in front of it, and barks. The horse, finding the dog
+ * right in front of it, turns around:
+ */
+{
+    let rex = new Dog("Rex", { x: 0, y: 0 }, "east");
+    let tom = new Horse("Tommy the Palomino", { x: 2, y: 0 }, "west");
+    let world = new World(new Arena(20, 1, 5)).add(rex, tom);
+
+    world.step();   // outputs "Woof! Woof! at Tommy the Palomino"
+    world.log.map(movement => `${ movement.name }: ${ movement.from.x } -> ${ movement.to.x }, ${ movement.blockedBy }`);    // returns ['Rex: 0 -> 1, Tommy the Palomino', 'Tommy the Palomino: 2 -> 2, Rex']
+    tom.heading;    // returns east
+    rex.heading;    // returns east
+}
+
+/**
+ * ----------------
+ * Replaying a run
+ * ----------------
+ * The log holds everything that happened, so where every animal was after any step can be worked
+ * out from the log and the snapshot taken before the run, without running the animals again. Each
+ * move has to start where the animal was left, or the log doesn’t belong to that snapshot.
+ */
+function replay(start: Snapshot, log: Movement[], untilStep = Infinity): Snapshot {
+    const state: Snapshot = JSON.parse(JSON.stringify(start));
+    for (const movement of log.filter(m => m.step <= untilStep)) {
+        const animal = state[movement.name];
+        if (!animal || animal.position.x !== movement.from.x || animal.position.y !== movement.from.y) {
+            throw new Error(`Step ${ movement.step } moves ${ movement.name } from somewhere it isn't`);
+        }
+        state[movement.name] = { position: { ...movement.to }, heading: movement.heading };
+    }
+    return state;
+}
+
+replay(start, world.log, 1)[tom.name];  // returns { position: { x: 9, y: 5 }, heading: 'east' }
+JSON.stringify(replay(start, world.log)) === JSON.stringify(world.snapshot());  // returns true
+
+/**
+ * The log is plain data, so it can be saved as JSON, and replayed later, or somewhere else. A log
+ * replayed from the wrong starting point is caught at its first move:
+ */
+let savedLog: Movement[] = JSON.parse(JSON.stringify(world.log));
+
+replay(start, savedLog, 3)[sam.name].position;  // returns { x: 3, y: 0 }
+replay(world.snapshot(), savedLog); // throws Error
\ No newline at end of file
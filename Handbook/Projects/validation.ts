@@ -0,0 +1,294 @@
+/**
+ * -------------------------
+ * Checking Data at Runtime
+ * -------------------------
+ * Interfaces only exist while the compiler runs. Excess Property Checks, in Interfaces, catch
+ * createSquare({ colour: "red", width: 100 }) because the compiler can see the object literal, but
+ * an object parsed from JSON could hold anything, and once SquareConfig gains an index signature
+ * even the literal gets through.
+ *
+ * This chapter describes options like SquareConfig and LabelledValue once, as schemas: values that
+ * can check data at runtime, and from which the compiler derives the interface, so the two can’t
+ * drift apart. A schema reports every property that doesn’t fit, with the path that leads to it.
+ *
+ * ------------------
+ * Issues and errors
+ * ------------------
+ * A problem with some data is an issue: where it is, written like a path into the JSON, and what is
+ * wrong there. When data must fit, every issue is thrown together in one error, so a reader can fix
+ * them all at once.
+ */
+interface Issue {
+    /** Where the problem is, such as $.labels[1].label, with $ standing for the data itself. */
+    path: string;
+    message: string;
+}
+
+class ValidationError extends Error {
+    name = "ValidationError";
+
+    constructor (readonly issues: Issue[]) {
+        super(issues.map(issue => `${ issue.path } ${ issue.message }`).join("\n"));
+    }
+}
+
+/**
+ * --------
+ * Schemas
+ * --------
+ * A schema knows what it expects, in words for the messages, and how to find the issues with a
+ * value. Everything else follows from that: whether a value fits, and parsing, which hands back the
+ * value with its static type only once it has been checked.
+ */
+class Schema<T> {
+    constructor (readonly expected: string, private check: (value: unknown, path: string) => Issue[]) { }
+
+    issues(value: unknown, path = "$"): Issue[] {
+        return this.check(value, path);
+    }
+
+    is(value: unknown): value is T {
+        return this.issues(value).length === 0;
+    }
+
+    parse(value: unknown): T {
+        const issues = this.issues(value);
+        if (issues.length > 0) {
+            throw new ValidationError(issues);
+        }
+        return value as T;
+    }
+
+    /** JSON that doesn’t parse throws the SyntaxError from JSON.parse. */
+    parseJSON(text: string): T {
+        return this.parse(JSON.parse(text));
+    }
+}
+
+/**
+ * A schema’s type argument is the type of the values it accepts, so a conditional type can recover
+ * it from any schema:
+ */
+type Infer<S extends Schema<any>> = S extends Schema<infer T> ? T : never;
+
+function describe(value: unknown): string {
+    if (value === null) {
+        return "null";
+    }
+    if (Array.isArray(value)) {
+        return "an array";
+    }
+    return /^[aeiou]/.test(typeof value) ? `an ${ typeof value }` : `a ${ typeof value }`;
+}
+
+function mismatch(expected: string, value: unknown, path: string): Issue[] {
+    return [{ path, message: `should be ${ expected }, not ${ describe(value) }` }];
+}
+
+/**
+ * The primitive schemas only look at typeof:
+ */
+function primitive<T>(name: "string" | "number" | "boolean"): Schema<T> {
+    const expected = `a ${ name }`;
+    return new Schema<T>(expected, (value, path) => typeof value === name ? [] : mismatch(expected, value, path));
+}
+
+const types = {
+    string: primitive<string>("string"),
+    number: primitive<number>("number"),
+    boolean: primitive<boolean>("boolean")
+};
+
+types.string.is("red"); // returns true
+types.number.issues("100"); // returns [{ path: '$', message: 'should be a number, not a string' }]
+
+/**
+ * Arrays check each element, at a path with its index:
+ */
+function array<T>(element: Schema<T>): Schema<T[]> {
+    const expected = `an array of ${ element.expected.replace(/^an? /, "") }s`;
+    return new Schema<T[]>(expected, (value, path) => Array.isArray(value)
+        ? ([] as Issue[]).concat(...value.map((item, i) => element.issues(item, `${ path }[${ i }]`)))
+        : mismatch(expected, value, path));
+}
+
+array(types.number).issues([1, "2", 3, false]).map(issue => issue.path);    // returns ['$[1]', '$[3]']
+
+/**
+ * ---------------
+ * Object schemas
+ * ---------------
+ * An interface is a set of properties, some of them optional. An optional property is marked by
+ * wrapping its schema, and the wrapper is a subclass so that the compiler can tell it apart as well:
+ */
+class Optional<T> extends Schema<T> {
+    readonly optional = true;
+}
+
+function optional<T>(schema: Schema<T>): Optional<T> {
+    return new Optional<T>(schema.expected, (value, path) => schema.issues(value, path));
+}
+
+/**
+ * The type of an object schema is built with mapped types, one for the required properties and one
+ * for the optional ones. Flatten merges the two back into a single object type, which reads better
+ * in editors and error messages.
+ */
+type Properties = { [name: string]: Schema<any> };
+
+type OptionalKeys<P extends Properties> = { [K in keyof P]: P[K] extends Optional<any> ? K : never }[keyof P];
+type Flatten<T> = { [K in keyof T]: T[K] };
+
+type ObjectOf<P extends Properties> = Flatten<
+    { [K in Exclude<keyof P, OptionalKeys<P>>]: Infer<P[K]> } &
+    { [K in OptionalKeys<P>]?: Infer<P[K]> }
+>;
+
+/**
+ * At runtime, an object schema checks every property it knows, reports the required ones that are
+ * missing, and by default reports every property it doesn’t know, the way an excess property check
+ * would. A property name that is one slip away from a known one gets a suggestion:
+ */
+interface ObjectOptions {
+    /** Whether properties the schema doesn’t list are rejected, as they are by default, or allowed. */
+    unknown?: "reject" | "allow";
+}
+
+function object<P extends Properties>(properties: P, options: ObjectOptions = {}): Schema<ObjectOf<P>> {
+    return new Schema<ObjectOf<P>>("an object", (value, path) => {
+        if (typeof value !== "object" || value === null || Array.isArray(value)) {
+            return mismatch("an object", value, path);
+        }
+        const record = value as { [name: string]: unknown };
+        const issues: Issue[] = [];
+
+        for (const name of Object.keys(properties)) {
+            const property = properties[name];
+            if (record[name] !== undefined) {
+                issues.push(...property.issues(record[name], propertyPath(path, name)));
+            }
+            else if (!(property instanceof Optional)) {
+                issues.push({ path: propertyPath(path, name), message: `is missing, and should be ${ property.expected }` });
+            }
+        }
+        if (options.unknown !== "allow") {
+            for (const name of Object.keys(record).filter(name => !properties.hasOwnProperty(name))) {
+                const suggestion = Object.keys(properties).find(known => isOneSlipAway(name, known));
+                const hint = suggestion ? `; did you mean ${ suggestion }?` : "";
+                issues.push({ path: propertyPath(path, name), message: `is not expected${ hint }` });
+            }
+        }
+        return issues;
+    });
+}
+
+/** Names that aren’t identifiers are written the way JavaScript would need them. */
+function propertyPath(path: string, name: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? `${ path }.${ name }` : `${ path }[${ JSON.stringify(name) }]`;
+}
+
+/** Whether one letter added, dropped or changed turns `a` into `b`. */
+function isOneSlipAway(a: string, b: string): boolean {
+    if (Math.abs(a.length - b.length) > 1) {
+        return false;
+    }
+    let start = 0;
+    while (start < a.length && a[start] === b[start]) {
+        start++;
+    }
+    return a.slice(start + (a.length >= b.length ? 1 : 0)) === b.slice(start + (b.length >= a.length ? 1 : 0));
+}
+
+/**
+ * -------------
+ * SquareConfig
+ * -------------
+ * SquareConfig is now written once, as a schema, and its type is derived from it. A value and a
+ * type can share a name, so the rest of the code reads exactly as it did in Interfaces:
+ */
+const SquareConfig = object({
+    color: optional(types.string),
+    width: optional(types.number)
+});
+type SquareConfig = Infer<typeof SquareConfig>;
+
+function createSquare(config: SquareConfig): {color: string; area: number} {
+    let newSquare = {color: "white", area: 100};
+    if (config.color) {
+        newSquare.color = config.color;
+    }
+    if (config.width) {
+        newSquare.area = config.width * config.width;
+    }
+    return newSquare;
+}
+
+createSquare({color: "black"}); // returns { color: 'black', area: 100 }
+createSquare({color: "black", width: "wide"});  // Error TS2322: Type 'string' is not assignable to type 'number'.
+
+/**
+ * Options that arrive as JSON are parsed before createSquare sees them. Good options come through
+ * with their type, and everything wrong with bad ones is reported at once:
+ */
+createSquare(SquareConfig.parseJSON('{"color": "red", "width": 10}'));   // returns { color: 'red', area: 100 }
+SquareConfig.parseJSON('{"colour": "red", "width": "100"}');    // throws ValidationError
+
+try {
+    SquareConfig.parseJSON('{"colour": "red", "width": "100"}');
+}
+catch (error) {
+    console.log(error.message); // outputs "$.width should be a number, not a string $.colour is not expected; did you mean color?"
+}
+
+/**
+ * The index signature that Interfaces adds to SquareConfig, [propName: string]: any, corresponds to
+ * allowing unknown properties. The known ones are still checked:
+ */
+const OpenSquareConfig = object({
+    color: optional(types.string),
+    width: optional(types.number)
+}, { unknown: "allow" });
+
+OpenSquareConfig.is({colour: "red", width: 100});   // returns true
+OpenSquareConfig.issues({opacity: 0.5, width: "100"});  // returns [{ path: '$.width', message: 'should be a number, not a string' }]
+
+/**
+ * ---------------------------
+ * LabelledValue, and nesting
+ * ---------------------------
+ * printLabel in Interfaces is happy with any object that has a string label, so LabelledValue
+ * allows other properties. Schemas nest, and so do the paths in their issues:
+ */
+const LabelledValue = object({ label: types.string }, { unknown: "allow" });
+type LabelledValue = Infer<typeof LabelledValue>;
+
+function printLabel(labelledObj: LabelledValue) {
+    console.log(labelledObj.label);
+}
+
+printLabel(LabelledValue.parseJSON('{"size": 10, "label": "Size 10 Object"}'));  // outputs "Size 10 Object"
+
+const Catalogue = object({
+    title: types.string,
+    labels: array(LabelledValue),
+    square: optional(SquareConfig),
+    "in stock": optional(types.boolean)
+});
+
+let catalogue = {labels: [{label: "Small"}, {size: 20}], square: {width: "wide"}, "in stock": "yes"};
+
+Catalogue.issues(catalogue).map(issue => `${ issue.path } ${ issue.message }`);    // returns ['$.title is missing, and should be a string', '$.labels[1].label is missing, and should be a string', '$.square.width should be a number, not a string', '$["in stock"] should be a boolean, not a string']
+
+/**
+ * The derived type follows the nesting too, so a parsed catalogue can be used without any further
+ * assertions. Optional properties stay optional, though, so the square has to be checked for before
+ * it is used, as the catalogue may well not have one:
+ */
+let parsed = Catalogue.parseJSON('{"title": "Spring", "labels": [{"label": "Small"}], "square": {"color": "green"}}');
+
+parsed.labels.map(labelled => labelled.label);  // returns ['Small']
+if (parsed.square) {
+    createSquare(parsed.square);    // returns { color: 'green', area: 100 }
+}
+Catalogue.parseJSON('{"title": "Winter", "labels": []}').square;  // returns undefined
+parsed.labels[0].size;  // Error TS2339: Property 'size' does not exist on type '{ label: string; }'.
\ No newline at end of file
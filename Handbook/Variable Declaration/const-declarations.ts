@@ -18,11 +18,11 @@ const kitty = {
     numLives: numLivesForCat
 }
 
-// Error
-/*kitty = {
+// Error TS2588: Cannot assign to 'kitty' because it is a constant.
+kitty = {
     name: "Ashu",
     numLives: numLivesForCat
-};*/
+};
 
 // all "okay"
 kitty.name = "Rory";
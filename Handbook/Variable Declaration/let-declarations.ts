@@ -16,7 +16,7 @@ let hello = "Hello!";
  * Unlike variables declared with var whose scopes leak out to their containing function, 
  * block-scoped variables are not visible outside of their nearest containing block or for-loop.
  */
-function f1(input: boolean) {
+function f(input: boolean) {
     let a = 100;
     if (input) {
         // Still okay to reference 'a'
@@ -24,12 +24,12 @@ function f1(input: boolean) {
         return b;
     }
 
-    // Error: 'b' doesn't exist here
-    // return b;
+    // Error TS2304: 'b' doesn't exist here
+    return b;
 }
 
 /**
- * Here, we have two local variables a and b. a’s scope is limited to the body of f1 while b’s scope 
+ * Here, we have two local variables a and b. a’s scope is limited to the body of f while b’s scope 
  * is limited to the containing if statement’s block.
  * 
  * Variables declared in a catch clause also have similar scoping rules.
@@ -41,8 +41,8 @@ catch(e) {
     console.log("Oh well.");
 }
 
-// Error: 'e' doen't exists here
-// console.log(e);
+// Error TS2304: 'e' doesn't exist here
+console.log(e);
 
 /**
  * Another property of block-scoped variables is that they can’t be read or written to before 
@@ -51,7 +51,7 @@ catch(e) {
  * way of saying you can’t access them before the let statement, and luckily TypeScript will let 
  * you know that.
  */
-// c++; // illegal to use 'c' before it's declared.
+c++; // Error TS2448: illegal to use 'c' before it's declared.
 let c;
 
 /**
@@ -60,13 +60,13 @@ let c;
  * ES2015, a modern runtime will throw an error; however, right now TypeScript is permissive 
  * and won’t report this as an error.
  */
-function foo1() {
+function foo() {
     // okay to capture 'd'
     return d;
 }
 
-// illegal call 'foo1' before 'a' is declared runtimes should throw an error here
-foo1();
+// illegal call 'foo' before 'd' is declared runtimes should throw an error here
+foo();  // throws ReferenceError
 let d;
 
 /**
@@ -76,12 +76,14 @@ let d;
  * With var declarations, we mentioned that it didn’t matter how many times you declared your 
  * variables; you just got one.
  */
-function f2(x) {
-    var x;
-    var x;
-
-    if (true) {
+{
+    function f(x) {
+        var x;
         var x;
+
+        if (true) {
+            var x;
+        }
     }
 }
 
@@ -89,45 +91,47 @@ function f2(x) {
  * In the above example, all declarations of x actually refer to the same x, and this is perfectly 
  * valid. This often ends up being a source of bugs. Thankfully, let declarations are not as forgiving.
  */
-let x1 = 10;
-// let x1 = 20;    // error: can't re-declare 'x' in the same scope
+let x = 10;
+// let x = 20;     // error: can't re-declare 'x' in the same scope
 
 /**
  * The variables don’t necessarily need to both be block-scoped for TypeScript to tell us that 
  * there’s a problem.
  * 
- *  function fu1(x3) {
- *      let x3 = 100;    // error: interferes with parameter declaration
+ *  function f(x) {
+ *      let x = 100;    // error: interferes with parameter declaration
  *  }
  * 
- *  function gu() {
- *      let x3 = 100;
- *      var x3 = 100;    // error: can't have both declarations of 'x'
+ *  function g() {
+ *      let x = 100;
+ *      var x = 100;    // error: can't have both declarations of 'x'
  *  }
  * 
  * That’s not to say that block-scoped variable can never be declared with a function-scoped 
  * variable. The block-scoped variable just needs to be declared within a distinctly different 
  * block.
  */
-function fun1(condition, y) {
-    if (condition) {
-        let y = 100;
+{
+    function f(condition, y) {
+        if (condition) {
+            let y = 100;
+            return y;
+        }
+
         return y;
     }
 
-    return y;
+    f(false, 0); // returns '0'
+    f(true, 0);  // returns '100'
 }
 
-fun1(false, 0); // returns '0'
-fun1(true, 0);  // returns '100'
-
 /**
  * The act of introducing a new name in a more nested scope is called shadowing. It is a bit of a 
  * double-edged sword in that it can introduce certain bugs on its own in the event of accidental 
  * shadowing, while also preventing certain bugs. For instance, imagine we had written our earlier 
  * sumMatrix function using let variables.
  */
-function sumMatrix1(matrix: number[][]) {
+function sumMatrix(matrix: number[][]) {
     let sum = 0;
     for (let i = 0; i < matrix.length; i++) {
         var currentRow = matrix[i];
@@ -182,4 +186,8 @@ function theCityThatAlwaysSleeps() {
  */
 for (let i = 0; i < 10; i++) {
     setTimeout(function() { console.log(i); }, 100 * i);
-}
\ No newline at end of file
+}   // outputs "0 1 2 3 4 5 6 7 8 9" at 0, 100, 200, 300, 400, 500, 600, 700, 800, 900 ms
+
+/**
+ * and as expected, this will print out 0 through 9, a line every 100 milliseconds.
+ */
\ No newline at end of file
@@ -150,7 +150,7 @@ function fct({ a, b = 0 } = { a: "" }): void {
 }
 fct({ a: "yes" });  // ok, default b = 0
 fct();  // ok, default to { a: ""}, which then defaults b = 0
-// fct({});    // error, 'a' is required if you supply an argument
+fct({});    // Error TS2345: Argument of type '{}' is not assignable to parameter of type '{ a: string; b?: number; }'.
 
 /**
  * Use destructuring with care. As the previous example demonstrates, anything but the simplest 
@@ -193,16 +193,18 @@ let search = { ...defaults, food: "rich" };
  * objects’ own, enumerable properties. Basically, that means you lose methods when you spread 
  * instances of an object:
  */
-class C1 {
-    p = 12;
-    m() {
+{
+    class C {
+        p = 12;
+        m() {
 
+        }
     }
+    let c = new C();
+    let clone = { ...c };
+    clone.p;    // ok
+    clone.m();  // Error TS2339: Property 'm' does not exist on type '{ p: number; }'.
 }
-let c1 = new C1();
-let clone = { ...c1 };
-clone.p;    // ok
-// clone.m();  // error!
 
 /**
  * Second, the Typescript compiler doesn’t allow spreads of type parameters from generic 
@@ -26,7 +26,7 @@ function fu() {
     }
 }
 var g = fu();
-g();    // retuns '11'
+g();    // returns '11'
 
 /**
  * In this above example, g captured the variable a declared in f. At any point that g gets 
@@ -92,4 +92,48 @@ function sumMatrix(matrix: number[][]) {
  * the variable i because i refers to the same function-scoped variable. As experienced developers 
  * know by now, similar sorts of bugs slip through code reviews and can be an endless source of 
  * frustration.
+ */
+
+/**
+ * --------------------------
+ * Variable capturing quirks
+ * --------------------------
+ * Take a quick second to guess what the output of the following snippet is:
+ */
+for (var i = 0; i < 10; i++) {
+    setTimeout(function() { console.log(i); }, 100 * i);
+}   // outputs "10 10 10 10 10 10 10 10 10 10" at 0, 100, 200, 300, 400, 500, 600, 700, 800, 900 ms
+
+/**
+ * For those unfamiliar, setTimeout will try to execute a function after a certain number of 
+ * milliseconds (though waiting for anything else to stop running).
+ * 
+ * Ready? Take a look: the snippet prints 10 ten times, one line every 100 milliseconds.
+ * 
+ * Many JavaScript developers are intimately familiar with this behavior, but if you’re surprised, 
+ * you’re certainly not alone. Most people expect the output to be 0 through 9.
+ * 
+ * Remember what we mentioned earlier about variable capturing? Every function expression we pass 
+ * to setTimeout actually refers to the same i from the same scope.
+ * 
+ * Let’s take a minute to consider what that means. setTimeout will run a function after some 
+ * number of milliseconds, but only after the for loop has stopped executing; By the time the for 
+ * loop has stopped executing, the value of i is 10. So each time the given function gets called, 
+ * it will print out 10!
+ * 
+ * A common work around is to use an IIFE - an Immediately Invoked Function Expression - to capture 
+ * i at each iteration:
+ */
+for (var i = 0; i < 10; i++) {
+    // capture the current state of 'i'
+    // by invoking a function with its current value
+    (function(i) {
+        setTimeout(function() { console.log(i); }, 100 * i);
+    })(i);
+}   // outputs "0 1 2 3 4 5 6 7 8 9" at 0, 100, 200, 300, 400, 500, 600, 700, 800, 900 ms
+
+/**
+ * This odd-looking pattern is actually pretty common. The i in the parameter list actually shadows 
+ * the i declared in the for loop, but since we named them the same, we didn’t have to modify the 
+ * loop body too much.
  */
\ No newline at end of file
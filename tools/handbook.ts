@@ -0,0 +1,41 @@
+/**
+ * -------------------
+ * Handbook discovery
+ * -------------------
+ * The chapters and the compiler options they are checked with both come from
+ * Handbook/tsconfig.json, so the tools always agree with what an editor sees.
+ */
+import * as path from "path";
+import * as ts from "typescript";
+
+export const ROOT_DIR = path.resolve(__dirname, "..");
+export const HANDBOOK_DIR = path.join(ROOT_DIR, "Handbook");
+
+export interface Handbook {
+    /** Absolute paths of every chapter file, in directory order. */
+    chapters: string[];
+    options: ts.CompilerOptions;
+}
+
+export function loadHandbook(): Handbook {
+    const configFile = path.join(HANDBOOK_DIR, "tsconfig.json");
+    const host: ts.ParseConfigFileHost = {
+        ...ts.sys,
+        onUnRecoverableConfigFileDiagnostic: diagnostic => {
+            throw new Error(ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"));
+        }
+    };
+    const parsed = ts.getParsedCommandLineOfConfigFile(configFile, {}, host);
+    if (!parsed) {
+        throw new Error(`Unable to read ${ configFile }`);
+    }
+    return {
+        chapters: parsed.fileNames.map(fileName => path.resolve(fileName)).sort(),
+        options: parsed.options
+    };
+}
+
+/** The path of a chapter relative to the repository root, e.g. "Handbook/Classes/classes.ts". */
+export function displayName(fileName: string): string {
+    return path.relative(ROOT_DIR, fileName).split(path.sep).join("/");
+}
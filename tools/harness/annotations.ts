@@ -0,0 +1,141 @@
+/**
+ * ------------
+ * Annotations
+ * ------------
+ * Chapters state what a statement does in a trailing comment:
+ *
+ *      console.log(rest);  // outputs [2, 3, 4]
+ *      fun();  // returns '2'
+ *      foo1(); // throws ReferenceError
+ *
+ * Anything after the expected value is free prose, so "// Display 'Green' as its value is 2 above"
+ * expects the output Green. Quotes around the value are not significant.
+ *
+ * Expected output can be followed by when each line of it is written, in simulated milliseconds
+ * after the statement ran, which is how examples that print from timers show their timing:
+ *
+ *      }   // outputs "0 1 2" at 0, 100, 200 ms
+ */
+import * as ts from "typescript";
+
+export type ExpectationKind = "outputs" | "returns" | "throws";
+
+export interface Expectation {
+    /** Identifies the statement at runtime; unique within a chapter. */
+    id: number;
+    kind: ExpectationKind;
+    expected: string;
+    /** For output, when each line is expected to be written, relative to the statement. */
+    times?: number[];
+    /** 1-based line of the annotated statement. */
+    line: number;
+    comment: string;
+}
+
+const TIMES = /^\s*at\s+(\d+(?:\s*,\s*\d+)*)\s*ms\b/;
+
+const KEYWORDS: { [keyword: string]: ExpectationKind } = {
+    output: "outputs",
+    outputs: "outputs",
+    display: "outputs",
+    displays: "outputs",
+    return: "returns",
+    returns: "returns",
+    throw: "throws",
+    throws: "throws"
+};
+
+/**
+ * Finds every annotated expression statement in a chapter. The map is keyed by the statement node
+ * so the instrumenting transformer can look its expectation up directly.
+ *
+ * A loop can be annotated with the output of all of its iterations, and of the timers they
+ * schedule, after its closing brace:
+ *
+ *      for (let i = 0; i < 3; i++) {
+ *          setTimeout(function() { console.log(i); }, 100 * i);
+ *      }   // outputs "0 1 2"
+ */
+export function collectExpectations(sourceFile: ts.SourceFile): Map<ts.Node, Expectation> {
+    const expectations = new Map<ts.Node, Expectation>();
+    const text = sourceFile.getFullText();
+
+    const visit = (node: ts.Node): void => {
+        if (ts.isExpressionStatement(node) || isBracedLoop(node)) {
+            const expectation = readAnnotation(text, node.end);
+            if (expectation && (expectation.kind === "outputs" || ts.isExpressionStatement(node))) {
+                const { line } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+                expectations.set(node, { id: expectations.size, line: line + 1, ...expectation });
+            }
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+    return expectations;
+}
+
+/** A comment after a one-line loop belongs to the statement inside it, so only braced loops count. */
+export function isBracedLoop(node: ts.Node): node is ts.IterationStatement {
+    return ts.isIterationStatement(node, false) && ts.isBlock(node.statement);
+}
+
+function readAnnotation(text: string, position: number): Pick<Expectation, "kind" | "expected" | "times" | "comment"> | undefined {
+    for (const range of ts.getTrailingCommentRanges(text, position) || []) {
+        if (range.kind !== ts.SyntaxKind.SingleLineCommentTrivia) {
+            continue;
+        }
+        const comment = text.slice(range.pos + 2, range.end).trim();
+        const match = /^(\w+)\s+(.*)$/.exec(comment);
+        if (!match || !KEYWORDS.hasOwnProperty(match[1].toLowerCase())) {
+            continue;
+        }
+        const kind = KEYWORDS[match[1].toLowerCase()];
+        const expected = readValue(match[2]);
+        if (expected === undefined) {
+            continue;
+        }
+        const quoted = /^['"`]/.test(match[2]);
+        const times = kind === "outputs" ? TIMES.exec(match[2].slice(expected.length + (quoted ? 2 : 0))) : null;
+        return times ? { kind, expected, times: times[1].split(",").map(Number), comment } : { kind, expected, comment };
+    }
+    return undefined;
+}
+
+/** Reads a quoted string, a bracketed literal or a single word from the start of the text. */
+function readValue(text: string): string | undefined {
+    const open = text.charAt(0);
+    if (open === "'" || open === "\"" || open === "`") {
+        const close = text.indexOf(open, 1);
+        return close === -1 ? undefined : text.slice(1, close);
+    }
+    if (open === "[" || open === "{") {
+        let depth = 0;
+        for (let i = 0; i < text.length; i++) {
+            const char = text.charAt(i);
+            if (char === "[" || char === "{") {
+                depth++;
+            }
+            else if (char === "]" || char === "}") {
+                depth--;
+                if (depth === 0) {
+                    return text.slice(0, i + 1);
+                }
+            }
+        }
+        return undefined;
+    }
+    const word = /^[^\s,;]+/.exec(text);
+    return word ? word[0] : undefined;
+}
+
+/**
+ * Compares loosely enough that "[2, 3, 4]" in a comment matches Node's "[ 2, 3, 4 ]", but not so
+ * loosely that different values match.
+ */
+export function normalize(value: string): string {
+    return value
+        .replace(/([[{(])\s+/g, "$1")
+        .replace(/\s+([\]})])/g, "$1")
+        .replace(/\s+/g, " ")
+        .trim();
+}
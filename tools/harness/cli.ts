@@ -0,0 +1,58 @@
+/**
+ * ------------
+ * Test runner
+ * ------------
+ * Type-checks the Handbook as one project, then runs every chapter listed by Handbook/tsconfig.json
+ * and reports each failed annotation with the line it sits on. Exits non-zero if anything fails.
+ */
+import { displayName, loadHandbook } from "../handbook";
+import { Failure } from "./failure";
+import { checkProject } from "./project";
+import { createChapterRunner } from "./runner";
+
+async function main(): Promise<void> {
+    const handbook = loadHandbook();
+    const runner = createChapterRunner(handbook.options);
+    let checked = 0;
+    let rejections = 0;
+    let failed = 0;
+
+    const projectFailures = checkProject(handbook);
+    if (projectFailures.size === 0) {
+        console.log(`PASS project (${ handbook.chapters.length } chapters type-check together)`);
+    }
+    for (const [fileName, failures] of projectFailures) {
+        failed++;
+        console.log(`FAIL project${ fileName ? ` ${ displayName(fileName) }` : "" }`);
+        report(failures);
+    }
+
+    for (const chapter of handbook.chapters) {
+        const result = await runner.run(chapter);
+        const name = displayName(chapter);
+        checked += result.expectations.length;
+        rejections += result.rejections;
+
+        if (result.failures.length === 0) {
+            console.log(`PASS ${ name } (${ result.expectations.length } expectations, ${ result.rejections } compile errors)`);
+            continue;
+        }
+        failed++;
+        console.log(`FAIL ${ name }`);
+        report(result.failures);
+    }
+
+    console.log(`\n${ handbook.chapters.length } chapters, ${ checked } expectations, ${ rejections } compile errors, ${ failed } failed`);
+    process.exitCode = failed > 0 ? 1 : 0;
+}
+
+function report(failures: Failure[]): void {
+    for (const failure of failures) {
+        console.log(`    ${ failure.line ? `line ${ failure.line }: ` : "" }${ failure.message }`);
+    }
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,103 @@
+/**
+ * ------------------------
+ * Expected compile errors
+ * ------------------------
+ * Chapters teach what the compiler rejects by writing the invalid code out and marking it with the
+ * diagnostic it must produce, either on the line directly above or at the end of the line:
+ *
+ *      new Animal3("Cat").name;    // Error TS2341: 'name' is private
+ *
+ *      // Error TS2420: Property 'state' is missing in type 'Image'
+ *      class Image implements SelectableControl {
+ *          select() { }
+ *      }
+ *
+ * The marked statement, class member or interface member must be reported with every listed code,
+ * and any diagnostic inside it is treated as expected. Marked statements and class members are left
+ * out of the emitted JavaScript, so the rest of the chapter still runs.
+ */
+import * as ts from "typescript";
+import { diagnosticFailure, Failure } from "./failure";
+
+export interface ErrorExpectation {
+    codes: number[];
+    /** 1-based line the marked snippet starts on. */
+    line: number;
+    start: number;
+    end: number;
+}
+
+const MARKER = /^error\b[\s:]*((?:TS\d+[\s,]*)+)/i;
+
+export function collectErrorExpectations(sourceFile: ts.SourceFile): Map<ts.Node, ErrorExpectation> {
+    const expectations = new Map<ts.Node, ErrorExpectation>();
+
+    const visit = (node: ts.Node): void => {
+        if (ts.isStatement(node) || ts.isClassElement(node) || ts.isTypeElement(node)) {
+            const codes = readMarker(sourceFile, node);
+            if (codes) {
+                const start = node.getStart(sourceFile);
+                const { line } = sourceFile.getLineAndCharacterOfPosition(start);
+                expectations.set(node, { codes, line: line + 1, start, end: node.end });
+                return;
+            }
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+    return expectations;
+}
+
+/**
+ * Splits the chapter's diagnostics into those the markers expected and those they did not, and
+ * reports every marker whose codes were not all produced.
+ */
+export function checkDiagnostics(expectations: Iterable<ErrorExpectation>, diagnostics: readonly ts.Diagnostic[]): Failure[] {
+    const failures: Failure[] = [];
+    const expected = new Set<ts.Diagnostic>();
+
+    for (const expectation of expectations) {
+        const inside = diagnostics.filter(diagnostic =>
+            diagnostic.start !== undefined && diagnostic.start >= expectation.start && diagnostic.start < expectation.end);
+        inside.forEach(diagnostic => expected.add(diagnostic));
+
+        const reported = inside.map(diagnostic => diagnostic.code);
+        const missing = expectation.codes.filter(code => reported.indexOf(code) === -1);
+        if (missing.length > 0) {
+            const actual = reported.length > 0 ? `it reported ${ reported.map(code => `TS${ code }`).join(", ") }` : "it compiled";
+            failures.push({ line: expectation.line, message: `expected error ${ missing.map(code => `TS${ code }`).join(", ") }, but ${ actual }` });
+        }
+    }
+
+    for (const diagnostic of diagnostics) {
+        if (!expected.has(diagnostic)) {
+            failures.push(diagnosticFailure(diagnostic));
+        }
+    }
+    return failures;
+}
+
+function readMarker(sourceFile: ts.SourceFile, node: ts.Node): number[] | undefined {
+    const text = sourceFile.getFullText();
+    const startLine = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line;
+    const endLine = sourceFile.getLineAndCharacterOfPosition(node.end).line;
+
+    const leading = (ts.getLeadingCommentRanges(text, node.pos) || []).filter(range => {
+        const { line, character } = sourceFile.getLineAndCharacterOfPosition(range.pos);
+        const indentation = text.slice(range.pos - character, range.pos);
+        return line === startLine - 1 && indentation.trim() === "";
+    });
+    const trailing = (ts.getTrailingCommentRanges(text, node.end) || []).filter(range =>
+        sourceFile.getLineAndCharacterOfPosition(range.pos).line === endLine);
+
+    for (const range of [...leading, ...trailing]) {
+        if (range.kind !== ts.SyntaxKind.SingleLineCommentTrivia) {
+            continue;
+        }
+        const match = MARKER.exec(text.slice(range.pos + 2, range.end).trim());
+        if (match) {
+            return match[1].split(/[\s,]+/).filter(Boolean).map(code => Number(code.slice(2)));
+        }
+    }
+    return undefined;
+}
@@ -0,0 +1,24 @@
+/**
+ * ---------
+ * Failures
+ * ---------
+ * What every check reports when something is wrong: a message, and the chapter line it concerns
+ * when there is one. Compiler diagnostics are turned into failures the same way wherever they are
+ * checked.
+ */
+import * as ts from "typescript";
+
+export interface Failure {
+    /** 1-based line in the chapter, when the failure can be pinned to one. */
+    line?: number;
+    message: string;
+}
+
+export function diagnosticFailure(diagnostic: ts.Diagnostic): Failure {
+    const message = `error TS${ diagnostic.code }: ${ ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n") }`;
+    if (diagnostic.file && diagnostic.start !== undefined) {
+        const { line } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+        return { line: line + 1, message };
+    }
+    return { message };
+}
@@ -0,0 +1,81 @@
+/**
+ * ----------------
+ * Instrumentation
+ * ----------------
+ * Each annotated statement is rewritten so the sandbox can observe it:
+ *
+ *      fun();  // returns '2'
+ *
+ * becomes
+ *
+ *      __expect.returns(3, () => fun());
+ *
+ * The arrow keeps `this`, `arguments` and `super` bound exactly as they were in the statement.
+ *
+ * An annotated loop can't be moved into an arrow without changing what its `var` declarations,
+ * `break` and `return` refer to, so it is bracketed instead:
+ *
+ *      try {
+ *          __expect.open(4);
+ *          for (var i = 0; i < 10; i++) { ... }
+ *      }
+ *      finally {
+ *          __expect.close(4);
+ *      }
+ *
+ * Snippets that are expected not to compile are dropped, as running them would only repeat at
+ * runtime the mistake the compiler already caught.
+ */
+import * as ts from "typescript";
+import { Expectation } from "./annotations";
+import { ErrorExpectation } from "./compile-errors";
+
+/** The global the sandbox installs its recorder under. */
+export const RECORDER = "__expect";
+
+export function instrument(
+    expectations: Map<ts.Node, Expectation>,
+    rejected: Map<ts.Node, ErrorExpectation>
+): ts.TransformerFactory<ts.SourceFile> {
+    return context => {
+        const { factory } = context;
+
+        const visit = (node: ts.Node): ts.Node | undefined => {
+            if (rejected.has(node)) {
+                return undefined;
+            }
+            const visited = ts.visitEachChild(node, visit, context);
+            const expectation = expectations.get(node);
+            if (!expectation) {
+                return visited;
+            }
+            if (!ts.isExpressionStatement(visited)) {
+                const call = (method: string) => factory.createExpressionStatement(factory.createCallExpression(
+                    factory.createPropertyAccessExpression(factory.createIdentifier(RECORDER), method),
+                    undefined,
+                    [factory.createNumericLiteral(expectation.id)]
+                ));
+                return factory.createTryStatement(
+                    factory.createBlock([call("open"), visited as ts.Statement], true),
+                    undefined,
+                    factory.createBlock([call("close")], true)
+                );
+            }
+            const recorder = factory.createPropertyAccessExpression(factory.createIdentifier(RECORDER), expectation.kind);
+            const thunk = factory.createArrowFunction(
+                undefined,
+                undefined,
+                [],
+                undefined,
+                factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+                visited.expression
+            );
+            return factory.updateExpressionStatement(
+                visited,
+                factory.createCallExpression(recorder, undefined, [factory.createNumericLiteral(expectation.id), thunk])
+            );
+        };
+
+        return sourceFile => ts.visitNode(sourceFile, visit) as ts.SourceFile;
+    };
+}
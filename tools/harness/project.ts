@@ -0,0 +1,35 @@
+/**
+ * --------------
+ * Project check
+ * --------------
+ * Chapters are modules, so they must also type-check together as a single program, the way an
+ * editor opening the Handbook folder sees them. Marked error snippets are honoured here as well.
+ */
+import * as ts from "typescript";
+import { Handbook } from "../handbook";
+import { checkDiagnostics, collectErrorExpectations } from "./compile-errors";
+import { diagnosticFailure, Failure } from "./failure";
+
+/** Failures keyed by chapter; diagnostics that belong to no chapter are keyed by "". */
+export function checkProject(handbook: Handbook): Map<string, Failure[]> {
+    const program = ts.createProgram(handbook.chapters, { ...handbook.options, noEmit: true });
+    const failures = new Map<string, Failure[]>();
+
+    const global = [...program.getOptionsDiagnostics(), ...program.getGlobalDiagnostics()];
+    if (global.length > 0) {
+        failures.set("", global.map(diagnosticFailure));
+    }
+    for (const fileName of handbook.chapters) {
+        const sourceFile = program.getSourceFile(fileName);
+        if (!sourceFile) {
+            failures.set(fileName, [{ message: "not part of the program" }]);
+            continue;
+        }
+        const diagnostics = [...program.getSyntacticDiagnostics(sourceFile), ...program.getSemanticDiagnostics(sourceFile)];
+        const chapterFailures = checkDiagnostics(collectErrorExpectations(sourceFile).values(), diagnostics);
+        if (chapterFailures.length > 0) {
+            failures.set(fileName, chapterFailures);
+        }
+    }
+    return failures;
+}
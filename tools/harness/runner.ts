@@ -0,0 +1,124 @@
+/**
+ * -------
+ * Runner
+ * -------
+ * Compiles one chapter on its own, runs it in the sandbox and checks every annotation against what
+ * actually happened.
+ */
+import * as ts from "typescript";
+import { collectExpectations, Expectation, normalize } from "./annotations";
+import { checkDiagnostics, collectErrorExpectations } from "./compile-errors";
+import { Failure } from "./failure";
+import { instrument } from "./instrument";
+import { errorName, execute, OutputLine } from "./sandbox";
+
+export interface ChapterResult {
+    fileName: string;
+    expectations: Expectation[];
+    /** How many snippets were checked to fail compilation. */
+    rejections: number;
+    failures: Failure[];
+    /** The chapter's console transcript, in simulated time; empty when it did not compile. */
+    output: OutputLine[];
+}
+
+export interface ChapterRunner {
+    run(fileName: string): Promise<ChapterResult>;
+}
+
+export function createChapterRunner(options: ts.CompilerOptions): ChapterRunner {
+    const compilerOptions: ts.CompilerOptions = { ...options, noEmit: false, sourceMap: false, declaration: false };
+    const host = createCachingHost(compilerOptions);
+
+    return {
+        async run(fileName) {
+            const program = ts.createProgram([fileName], compilerOptions, host);
+
+            const sourceFile = program.getSourceFile(fileName);
+            if (!sourceFile) {
+                throw new Error(`Unable to read ${ fileName }`);
+            }
+            const annotated = collectExpectations(sourceFile);
+            const rejected = collectErrorExpectations(sourceFile);
+            const expectations = Array.from(annotated.values());
+            const result: ChapterResult = { fileName, expectations, rejections: rejected.size, failures: [], output: [] };
+
+            result.failures.push(...checkDiagnostics(rejected.values(), ts.getPreEmitDiagnostics(program, sourceFile)));
+            if (result.failures.length > 0) {
+                return result;
+            }
+
+            let code = "";
+            program.emit(sourceFile, (name, text) => {
+                if (name.endsWith(".js")) {
+                    code = text;
+                }
+            }, undefined, false, { before: [instrument(annotated, rejected)] });
+
+            const execution = execute(code, fileName);
+            result.output = execution.output;
+            if (execution.error !== undefined) {
+                result.failures.push({ message: `uncaught ${ errorName(execution.error) }: ${ errorMessage(execution.error) }` });
+            }
+            for (const expectation of expectations) {
+                const failure = check(expectation, execution.observations.get(expectation.id)) ||
+                    checkTimes(expectation, execution.timings.get(expectation.id));
+                if (failure) {
+                    result.failures.push(failure);
+                }
+            }
+            return result;
+        }
+    };
+}
+
+function check(expectation: Expectation, observed: string[] | undefined): Failure | undefined {
+    const { kind, expected, line } = expectation;
+    if (!observed) {
+        return { line, message: `expected it to ${ verb(kind) } ${ expected }, but the statement never ran` };
+    }
+    const mismatch = observed.find(actual => normalize(actual) !== normalize(expected));
+    if (mismatch !== undefined) {
+        return { line, message: `expected it to ${ verb(kind) } ${ expected }, but it ${ verb(kind, true) } ${ mismatch || "nothing" }` };
+    }
+    return undefined;
+}
+
+function checkTimes(expectation: Expectation, observed: number[] | undefined): Failure | undefined {
+    const { times, line } = expectation;
+    if (!times || !observed || times.join() === observed.join()) {
+        return undefined;
+    }
+    return { line, message: `expected its output at ${ times.join(", ") } ms, but it came at ${ observed.join(", ") || "no time" } ms` };
+}
+
+function verb(kind: Expectation["kind"], past = false): string {
+    switch (kind) {
+        case "outputs": return "output";
+        case "returns": return past ? "returned" : "return";
+        case "throws": return past ? "threw" : "throw";
+    }
+}
+
+function errorMessage(error: unknown): string {
+    return error && typeof error === "object" && "message" in error ? String((error as Error).message) : String(error);
+}
+
+/** The default lib files are large and identical for every chapter, so parse them only once. */
+function createCachingHost(options: ts.CompilerOptions): ts.CompilerHost {
+    const host = ts.createCompilerHost(options);
+    const libDirectory = ts.sys.resolvePath(host.getDefaultLibLocation ? host.getDefaultLibLocation() : "");
+    const cache = new Map<string, ts.SourceFile | undefined>();
+    const getSourceFile = host.getSourceFile;
+
+    host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) => {
+        if (!ts.sys.resolvePath(fileName).startsWith(libDirectory)) {
+            return getSourceFile.call(host, fileName, languageVersion, onError, shouldCreate);
+        }
+        if (!cache.has(fileName)) {
+            cache.set(fileName, getSourceFile.call(host, fileName, languageVersion, onError, shouldCreate));
+        }
+        return cache.get(fileName);
+    };
+    return host;
+}
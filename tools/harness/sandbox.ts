@@ -0,0 +1,166 @@
+/**
+ * --------
+ * Sandbox
+ * --------
+ * Runs a compiled chapter in a fresh V8 context, so chapters cannot see each other's globals. Every
+ * chapter is a CommonJS module, so the context gets its own `exports` and `module`. It also gets a
+ * console and an alert that write to a shared transcript, timers that run in simulated time once
+ * the chapter has finished, and the recorder the instrumented statements call into.
+ *
+ * The context has a microtask queue of its own, which is emptied after the chapter and after every
+ * timer, so promise callbacks run before the next timer as they would in Node or a browser.
+ */
+import * as util from "util";
+import * as vm from "vm";
+import { ExpectationKind } from "./annotations";
+import { RECORDER } from "./instrument";
+import { createTimerQueue } from "./timers";
+
+/** How many timers a chapter may run before it is assumed to keep scheduling forever. */
+const TIMER_LIMIT = 100000;
+
+/** Timer callbacks are run through a script, as only scripts empty the microtask queue afterwards. */
+const TIMER_SLOT = "__timer";
+const RUN_TIMER = new vm.Script(`${ TIMER_SLOT }()`);
+
+export interface OutputLine {
+    /** Simulated milliseconds since the chapter started. */
+    time: number;
+    text: string;
+}
+
+export interface Execution {
+    /** Every line written through console or alert, in order. */
+    output: OutputLine[];
+    /** What each instrumented statement produced, keyed by expectation id. */
+    observations: Map<number, string[]>;
+    /** When each line of an expectation's output was written, in milliseconds after its statement ran. */
+    timings: Map<number, number[]>;
+    /** The first error that escaped the chapter or one of its timers. */
+    error?: unknown;
+}
+
+/**
+ * Instrumented expressions call the recorder with a thunk. Statements that only expect output, such
+ * as loops, are bracketed by open and close instead.
+ */
+type Recorder = { [kind in ExpectationKind]: (id: number, run: () => unknown) => void } & {
+    open(id: number): void;
+    close(id: number): void;
+};
+
+/** Output is collected for every expectation that is open while it is written. */
+interface OutputRecord {
+    id: number;
+    /** When the statement ran. */
+    start: number;
+    lines: OutputLine[];
+}
+
+export function execute(code: string, fileName: string): Execution {
+    const execution: Execution = { output: [], observations: new Map(), timings: new Map() };
+    const timers = createTimerQueue();
+    // A timer writes to the records that were open when it was scheduled, so output from a
+    // setTimeout callback counts towards the statement that scheduled it.
+    let open: OutputRecord[] = [];
+    const records: OutputRecord[] = [];
+
+    const guard = (run: () => void) => {
+        try {
+            run();
+        }
+        catch (error) {
+            if (execution.error === undefined) {
+                execution.error = error;
+            }
+        }
+    };
+    const observe = (id: number, actual: string) => {
+        const observed = execution.observations.get(id) || [];
+        observed.push(actual);
+        execution.observations.set(id, observed);
+    };
+
+    const write = (...args: unknown[]) => {
+        const line = { time: timers.now(), text: util.format(...args) };
+        execution.output.push(line);
+        open.forEach(record => record.lines.push(line));
+    };
+    const recorder: Recorder = {
+        open: id => {
+            const record: OutputRecord = { id, start: timers.now(), lines: [] };
+            records.push(record);
+            open = [...open, record];
+        },
+        close: id => {
+            open = open.filter(record => record.id !== id);
+        },
+        outputs: (id, run) => {
+            recorder.open(id);
+            try {
+                run();
+            }
+            finally {
+                recorder.close(id);
+            }
+        },
+        returns: (id, run) => {
+            const value = run();
+            observe(id, typeof value === "string" ? value : util.inspect(value));
+        },
+        throws: (id, run) => {
+            try {
+                run();
+            }
+            catch (error) {
+                observe(id, errorName(error));
+                return;
+            }
+            observe(id, "nothing");
+        }
+    };
+
+    const exports = {};
+    const context = vm.createContext({
+        exports,
+        module: { exports },
+        console: { log: write, info: write, warn: write, error: write },
+        alert: (message?: unknown) => write(message),
+        setTimeout: (callback: (...args: unknown[]) => void, delay?: number, ...args: unknown[]) => {
+            const scheduledFrom = open;
+            return timers.schedule(() => {
+                open = scheduledFrom;
+                context[TIMER_SLOT] = () => callback(...args);
+                guard(() => RUN_TIMER.runInContext(context));
+                open = [];
+            }, delay);
+        },
+        clearTimeout: (handle: number) => timers.cancel(handle),
+        [RECORDER]: recorder
+    }, { microtaskMode: "afterEvaluate" });
+    // Date.now follows the simulated time too, so code that measures how long it waited agrees
+    // with the timers it scheduled.
+    const start = Date.now();
+    vm.runInContext("Date", context).now = () => start + timers.now();
+
+    guard(() => vm.runInContext(code, context, { filename: fileName }));
+    if (!timers.run(TIMER_LIMIT)) {
+        guard(() => {
+            throw new Error(`timers were still being scheduled after ${ TIMER_LIMIT } had run`);
+        });
+    }
+
+    for (const record of records) {
+        observe(record.id, record.lines.map(line => line.text).join("\n"));
+        execution.timings.set(record.id, record.lines.map(line => line.time - record.start));
+    }
+    return execution;
+}
+
+/** Errors come from another realm, so `instanceof` checks against our own classes would fail. */
+export function errorName(error: unknown): string {
+    if (error && typeof error === "object" && "name" in error) {
+        return String((error as Error).name);
+    }
+    return String(error);
+}
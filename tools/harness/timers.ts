@@ -0,0 +1,63 @@
+/**
+ * ------------
+ * Timer queue
+ * ------------
+ * Chapters schedule timers, and waiting for them in real time would make the harness slow and their
+ * order depend on the machine. The sandbox hands chapters this queue instead: nothing happens until
+ * the chapter has finished, then every timer runs as soon as the one before it, with the simulated
+ * time moved on to when the timer was due.
+ *
+ * Timers due at the same moment run in the order they were scheduled, as they do in browsers and
+ * in Node, so a chapter behaves the same way on every run.
+ */
+
+export interface TimerQueue {
+    /** Simulated milliseconds since the queue was created. */
+    now(): number;
+    schedule(callback: () => void, delay?: number): number;
+    cancel(handle: number): void;
+    /**
+     * Runs timers, including those scheduled by other timers, until none are left. Gives up and
+     * returns false once `limit` timers have run, as a chapter that keeps scheduling would
+     * otherwise never finish.
+     */
+    run(limit: number): boolean;
+}
+
+interface Timer {
+    handle: number;
+    due: number;
+    callback: () => void;
+}
+
+export function createTimerQueue(): TimerQueue {
+    let current = 0;
+    let lastHandle = 0;
+    // Handles only ever grow, so a queue ordered by due time and then by handle is ordered by
+    // scheduling among timers that are due together.
+    let timers: Timer[] = [];
+
+    return {
+        now: () => current,
+        schedule(callback, delay) {
+            const timer = { handle: ++lastHandle, due: current + Math.max(0, Number(delay) || 0), callback };
+            const index = timers.findIndex(t => t.due > timer.due);
+            timers.splice(index === -1 ? timers.length : index, 0, timer);
+            return timer.handle;
+        },
+        cancel(handle) {
+            timers = timers.filter(t => t.handle !== handle);
+        },
+        run(limit) {
+            for (let count = 0; timers.length > 0; count++) {
+                if (count === limit) {
+                    return false;
+                }
+                const timer = timers.shift()!;
+                current = timer.due;
+                timer.callback();
+            }
+            return true;
+        }
+    };
+}
@@ -0,0 +1,84 @@
+/**
+ * ----------------
+ * Compiler worker
+ * ----------------
+ * Type-checks and compiles one section in the context of the chapter code before it. A call to
+ * __playground_section__() is placed between the two, so the runner can tell the section's output
+ * apart from that of the code leading up to it.
+ */
+declare function importScripts(...urls: string[]): void;
+declare const ts: typeof import("typescript");
+declare const handbookEnvironment: HandbookEnvironment;
+
+importScripts("typescript.js", "environment.js");
+
+const CHAPTER_FILE = "/chapter.ts";
+const MARKER_FILE = "/playground.d.ts";
+const MARKER_DECLARATION = "declare function __playground_section__(): void;";
+const MARKER_CALL = "__playground_section__();";
+
+/** Lib files never change, so they are parsed once for the life of the worker. */
+const libSourceFiles = new Map<string, import("typescript").SourceFile>();
+
+function compileSection(request: CompileRequest): CompileResponse {
+    const prefix = `${ request.context }\n${ MARKER_CALL }\n`;
+    const files: { [fileName: string]: string } = {
+        [CHAPTER_FILE]: prefix + request.code,
+        [MARKER_FILE]: MARKER_DECLARATION
+    };
+    const options: import("typescript").CompilerOptions = { ...handbookEnvironment.options, noEmit: false };
+    let javascript = "";
+
+    const readFile = (fileName: string): string | undefined =>
+        files[fileName] !== undefined ? files[fileName] : handbookEnvironment.libs[fileName.slice(fileName.lastIndexOf("/") + 1)];
+
+    const host: import("typescript").CompilerHost = {
+        getSourceFile: (fileName, languageVersion) => {
+            const text = readFile(fileName);
+            if (text === undefined) {
+                return undefined;
+            }
+            if (files[fileName] !== undefined) {
+                return ts.createSourceFile(fileName, text, languageVersion);
+            }
+            if (!libSourceFiles.has(fileName)) {
+                libSourceFiles.set(fileName, ts.createSourceFile(fileName, text, languageVersion));
+            }
+            return libSourceFiles.get(fileName);
+        },
+        getDefaultLibFileName: compilerOptions => `/${ ts.getDefaultLibFileName(compilerOptions) }`,
+        getDefaultLibLocation: () => "/",
+        writeFile: (fileName, text) => {
+            if (fileName.endsWith(".js")) {
+                javascript = text;
+            }
+        },
+        getCurrentDirectory: () => "/",
+        getDirectories: () => [],
+        fileExists: fileName => readFile(fileName) !== undefined,
+        readFile,
+        getCanonicalFileName: fileName => fileName,
+        useCaseSensitiveFileNames: () => true,
+        getNewLine: () => "\n"
+    };
+
+    const program = ts.createProgram([CHAPTER_FILE, MARKER_FILE], options, host);
+    const chapter = program.getSourceFile(CHAPTER_FILE)!;
+    const firstLine = chapter.getLineAndCharacterOfPosition(prefix.length).line;
+
+    const diagnostics = ts.getPreEmitDiagnostics(program, chapter)
+        .filter(diagnostic => diagnostic.start !== undefined && diagnostic.start >= prefix.length)
+        .map(diagnostic => ({
+            line: chapter.getLineAndCharacterOfPosition(diagnostic.start!).line - firstLine + 1,
+            code: diagnostic.code,
+            message: ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")
+        }));
+
+    program.emit(chapter);
+    return { id: request.id, diagnostics, javascript };
+}
+
+const compilerScope = self as unknown as WorkerScope;
+compilerScope.onmessage = event => {
+    compilerScope.postMessage(compileSection(event.data as CompileRequest));
+};
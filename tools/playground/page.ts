@@ -0,0 +1,171 @@
+/**
+ * ----------------
+ * Playground page
+ * ----------------
+ * Gives every code section of a chapter page Edit, Run and Reset buttons. Runs show the compiler's
+ * diagnostics for the section and the output it writes, right below it.
+ */
+const RUN_TIMEOUT = 5000;
+const playgroundBase = (document.currentScript as HTMLScriptElement).src;
+
+let compilerWorker: Worker | undefined;
+let nextCompileId = 0;
+const pendingCompiles = new Map<number, { resolve: (response: CompileResponse) => void; reject: (error: Error) => void }>();
+
+/**
+ * A compiler worker that fails to load, or can't read a message, fails every compile waiting on
+ * it, and is replaced by a new one on the next compile.
+ */
+function compileSectionInWorker(context: string, code: string): Promise<CompileResponse> {
+    if (!compilerWorker) {
+        const worker = new Worker(new URL("compiler.js", playgroundBase).href);
+        const fail = (message: string) => {
+            if (compilerWorker === worker) {
+                compilerWorker = undefined;
+            }
+            worker.terminate();
+            pendingCompiles.forEach(pending => pending.reject(new Error(message)));
+            pendingCompiles.clear();
+        };
+        worker.onmessage = event => {
+            const response = event.data as CompileResponse;
+            const pending = pendingCompiles.get(response.id);
+            pendingCompiles.delete(response.id);
+            if (pending) {
+                pending.resolve(response);
+            }
+        };
+        worker.onerror = event => {
+            event.preventDefault();
+            fail(`The compiler failed: ${ event.message || "it could not be loaded" }`);
+        };
+        worker.onmessageerror = () => fail("The compiler sent a message that could not be read");
+        compilerWorker = worker;
+    }
+    const worker = compilerWorker;
+    const request: CompileRequest = { id: nextCompileId++, context, code };
+    return new Promise((resolve, reject) => {
+        pendingCompiles.set(request.id, { resolve, reject });
+        worker.postMessage(request);
+    });
+}
+
+function appendLine(output: HTMLElement, className: string, text: string): void {
+    const line = document.createElement("div");
+    line.className = className;
+    line.textContent = text;
+    output.appendChild(line);
+}
+
+function runInWorker(javascript: string, output: HTMLElement): void {
+    const worker = new Worker(new URL("runner.js", playgroundBase).href);
+    const stop = (className: string, text: string) => {
+        clearTimeout(timeout);
+        worker.terminate();
+        appendLine(output, className, text);
+    };
+    const timeout = setTimeout(() => stop("error", `Stopped after ${ RUN_TIMEOUT / 1000 } seconds`), RUN_TIMEOUT);
+
+    worker.onmessage = event => {
+        const message = event.data as RunnerMessage;
+        switch (message.kind) {
+            case "output":
+                appendLine(output, "log", message.text);
+                break;
+            case "error":
+                appendLine(output, "error", message.text);
+                break;
+            case "done":
+                stop("status", "Done");
+                break;
+        }
+    };
+    const request: RunRequest = { javascript };
+    worker.postMessage(request);
+}
+
+async function runPlaygroundSection(context: string, code: string, output: HTMLElement): Promise<void> {
+    output.hidden = false;
+    output.textContent = "";
+    appendLine(output, "status", "Compiling...");
+
+    let result: CompileResponse;
+    try {
+        result = await compileSectionInWorker(context, code);
+    }
+    catch (error) {
+        output.textContent = "";
+        appendLine(output, "error", (error as Error).message);
+        return;
+    }
+    output.textContent = "";
+    for (const diagnostic of result.diagnostics) {
+        appendLine(output, "diagnostic", `line ${ diagnostic.line }: error TS${ diagnostic.code }: ${ diagnostic.message }`);
+    }
+    runInWorker(result.javascript, output);
+}
+
+function createButton(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.type = "button";
+    button.textContent = label;
+    button.addEventListener("click", onClick);
+    return button;
+}
+
+function attachPlayground(pre: HTMLElement, context: string): void {
+    const original = pre.textContent || "";
+    const container = document.createElement("div");
+    container.className = "playground";
+    pre.replaceWith(container);
+
+    const editor = document.createElement("textarea");
+    editor.value = original;
+    editor.spellcheck = false;
+    editor.rows = original.split("\n").length + 1;
+    editor.hidden = true;
+    editor.addEventListener("keydown", event => {
+        if (event.key === "Tab") {
+            event.preventDefault();
+            editor.setRangeText("    ", editor.selectionStart, editor.selectionEnd, "end");
+        }
+    });
+
+    const output = document.createElement("div");
+    output.className = "playground-output";
+    output.hidden = true;
+
+    const toolbar = document.createElement("div");
+    toolbar.className = "playground-toolbar";
+    toolbar.append(
+        createButton("Edit", () => {
+            pre.hidden = true;
+            editor.hidden = false;
+            editor.focus();
+        }),
+        createButton("Run", () => {
+            runPlaygroundSection(context, editor.hidden ? original : editor.value, output);
+        }),
+        createButton("Reset", () => {
+            editor.value = original;
+            editor.hidden = true;
+            pre.hidden = false;
+            output.hidden = true;
+        })
+    );
+
+    container.append(toolbar, pre, editor, output);
+}
+
+function setUpPlayground(): void {
+    const data = document.getElementById("chapter-source");
+    if (!data) {
+        return;
+    }
+    const source: string = JSON.parse(data.textContent || "\"\"");
+    document.querySelectorAll<HTMLElement>("pre.code[data-pos]").forEach(pre => {
+        attachPlayground(pre, source.slice(0, Number(pre.dataset.pos)));
+    });
+}
+
+setUpPlayground();
@@ -0,0 +1,45 @@
+/**
+ * Messages exchanged between the page and its two workers. The compiler worker lives as long as the
+ * page; a runner worker is started for every run, so a runaway example can simply be terminated.
+ */
+
+interface WorkerScope {
+    onmessage: ((event: MessageEvent) => void) | null;
+    postMessage(message: unknown): void;
+}
+
+interface HandbookEnvironment {
+    options: import("typescript").CompilerOptions;
+    /** Lib declaration files by file name, e.g. "lib.es2017.d.ts". */
+    libs: { [fileName: string]: string };
+}
+
+interface CompileRequest {
+    id: number;
+    /** The chapter up to the section, already stripped of snippets that must not compile or that throw. */
+    context: string;
+    /** The section's code as the reader left it. */
+    code: string;
+}
+
+interface PlaygroundDiagnostic {
+    /** 1-based line within the section. */
+    line: number;
+    code: number;
+    message: string;
+}
+
+interface CompileResponse {
+    id: number;
+    diagnostics: PlaygroundDiagnostic[];
+    javascript: string;
+}
+
+interface RunRequest {
+    javascript: string;
+}
+
+type RunnerMessage =
+    | { kind: "output"; text: string }
+    | { kind: "error"; text: string }
+    | { kind: "done" };
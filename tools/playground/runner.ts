@@ -0,0 +1,93 @@
+/**
+ * --------------
+ * Runner worker
+ * --------------
+ * Runs one compiled section. Output is only reported once __playground_section__() has been
+ * called, so the chapter code leading up to the section runs silently. The page terminates the
+ * worker once it reports that it is done, or when it runs for too long.
+ */
+const runnerScope = self as unknown as WorkerScope;
+let inSection = false;
+const pendingTimers = new Set<number>();
+let mainFinished = false;
+
+function report(message: RunnerMessage): void {
+    runnerScope.postMessage(message);
+}
+
+function reportError(error: unknown): void {
+    const text = error instanceof Error ? `${ error.name }: ${ error.message }` : String(error);
+    report({ kind: "error", text: `Uncaught ${ text }` });
+}
+
+function reportIfDone(): void {
+    if (mainFinished && pendingTimers.size === 0) {
+        report({ kind: "done" });
+    }
+}
+
+function writeOutput(...args: unknown[]): void {
+    if (inSection) {
+        report({ kind: "output", text: args.map(value => typeof value === "string" ? value : describe(value)).join(" ") });
+    }
+}
+
+/** A small stand-in for Node's util.inspect, close enough for the values chapters print. */
+function describe(value: unknown, depth = 0): string {
+    if (typeof value === "string") {
+        return depth === 0 ? value : `'${ value }'`;
+    }
+    if (typeof value === "function") {
+        return `[Function: ${ value.name || "(anonymous)" }]`;
+    }
+    if (Array.isArray(value)) {
+        return depth > 2 ? "[Array]" : `[ ${ value.map(item => describe(item, depth + 1)).join(", ") } ]`;
+    }
+    if (value && typeof value === "object") {
+        if (depth > 2) {
+            return "[Object]";
+        }
+        const name = value.constructor && value.constructor !== Object ? `${ value.constructor.name } ` : "";
+        const entries = Object.keys(value).map(key => `${ key }: ${ describe((value as { [key: string]: unknown })[key], depth + 1) }`);
+        return entries.length === 0 ? `${ name }{}` : `${ name }{ ${ entries.join(", ") } }`;
+    }
+    return String(value);
+}
+
+function runSection(javascript: string): void {
+    const exports = {};
+    const sandboxConsole = { log: writeOutput, info: writeOutput, warn: writeOutput, error: writeOutput };
+    const sandboxSetTimeout = (callback: (...args: unknown[]) => void, delay?: number, ...args: unknown[]) => {
+        const handle = setTimeout(() => {
+            pendingTimers.delete(handle);
+            try {
+                callback(...args);
+            }
+            catch (error) {
+                reportError(error);
+            }
+            reportIfDone();
+        }, delay);
+        pendingTimers.add(handle);
+        return handle;
+    };
+    const sandboxClearTimeout = (handle: number) => {
+        clearTimeout(handle);
+        pendingTimers.delete(handle);
+        reportIfDone();
+    };
+
+    try {
+        const run = new Function("exports", "module", "console", "alert", "setTimeout", "clearTimeout", "__playground_section__", javascript);
+        run(exports, { exports }, sandboxConsole, writeOutput, sandboxSetTimeout, sandboxClearTimeout, () => { inSection = true; });
+    }
+    catch (error) {
+        reportError(error);
+    }
+    mainFinished = true;
+    reportIfDone();
+}
+
+runnerScope.onmessage = event => {
+    runSection((event.data as RunRequest).javascript);
+};
@@ -0,0 +1,62 @@
+/**
+ * ---------------
+ * Site generator
+ * ---------------
+ * Renders every chapter, its compiled JavaScript, a contents page per directory and a book index
+ * into site/, along with the offline playground, ready to be served with `npm run serve`.
+ */
+import * as fs from "fs";
+import * as path from "path";
+import { loadHandbook, ROOT_DIR } from "../handbook";
+import { loadContents } from "./contents";
+import { emitChapters } from "./emit";
+import { parseChapter } from "./literate";
+import { playgroundSource, runnableSource, writePlayground } from "./playground";
+import { compiledHref, RenderedChapter, renderChapter, renderCompiled, renderIndex, renderPart, STYLESHEET } from "./render";
+
+export const SITE_DIR = path.join(ROOT_DIR, "site");
+
+function main(): void {
+    const handbook = loadHandbook();
+    const parts = loadContents(handbook);
+    const entries = parts.flatMap(part => part.chapters);
+
+    const chapters = new Map<string, RenderedChapter>();
+    const texts = new Map<string, string>();
+    for (const entry of entries) {
+        const text = fs.readFileSync(entry.fileName, "utf8");
+        texts.set(entry.fileName, text);
+        chapters.set(entry.fileName, {
+            entry,
+            chapter: parseChapter(text, path.basename(entry.fileName, ".ts")),
+            playgroundSource: playgroundSource(entry.fileName, text)
+        });
+    }
+
+    const runnable = new Map(entries.map(entry => [entry.fileName, runnableSource(entry.fileName, texts.get(entry.fileName)!)]));
+    const emitted = emitChapters(runnable, handbook.options);
+
+    fs.rmSync(SITE_DIR, { recursive: true, force: true });
+    write("index.html", renderIndex(parts, chapters));
+    write("style.css", STYLESHEET);
+    writePlayground(path.join(SITE_DIR, "playground"), handbook.options);
+    for (const part of parts) {
+        write(`${ part.slug }/index.html`, renderPart(part, chapters));
+    }
+    entries.forEach((entry, i) => {
+        const previous = i > 0 ? chapters.get(entries[i - 1].fileName) : undefined;
+        const next = i < entries.length - 1 ? chapters.get(entries[i + 1].fileName) : undefined;
+        write(entry.href, renderChapter(chapters.get(entry.fileName)!, previous, next));
+        write(compiledHref(entry), renderCompiled(chapters.get(entry.fileName)!, texts.get(entry.fileName)!, emitted.get(entry.fileName)!));
+    });
+
+    console.log(`Rendered ${ entries.length } chapters to ${ path.relative(ROOT_DIR, SITE_DIR) }/`);
+}
+
+function write(relativePath: string, contents: string): void {
+    const fileName = path.join(SITE_DIR, relativePath);
+    fs.mkdirSync(path.dirname(fileName), { recursive: true });
+    fs.writeFileSync(fileName, contents);
+}
+
+main();
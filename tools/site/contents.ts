@@ -0,0 +1,54 @@
+/**
+ * ---------
+ * Contents
+ * ---------
+ * Handbook/contents.json puts the directories and the chapters inside them in reading order. Every
+ * chapter must be listed exactly once, so a new chapter cannot silently go missing from the site.
+ */
+import * as fs from "fs";
+import * as path from "path";
+import { displayName, Handbook, HANDBOOK_DIR } from "../handbook";
+import { slug } from "./literate";
+
+export interface Part {
+    /** The directory name, which doubles as the part's title. */
+    title: string;
+    slug: string;
+    chapters: ChapterEntry[];
+}
+
+export interface ChapterEntry {
+    fileName: string;
+    part: Part;
+    /** Path of the rendered page relative to the site root, e.g. "classes/inheritance.html". */
+    href: string;
+}
+
+interface ContentsFile {
+    directory: string;
+    chapters: string[];
+}
+
+export function loadContents(handbook: Handbook): Part[] {
+    const contentsFile = path.join(HANDBOOK_DIR, "contents.json");
+    const contents: ContentsFile[] = JSON.parse(fs.readFileSync(contentsFile, "utf8"));
+    const unlisted = new Set(handbook.chapters);
+
+    const parts = contents.map(entry => {
+        const part: Part = { title: entry.directory, slug: slug(entry.directory), chapters: [] };
+        for (const chapter of entry.chapters) {
+            const fileName = path.join(HANDBOOK_DIR, entry.directory, chapter);
+            if (!unlisted.delete(fileName)) {
+                throw new Error(`${ displayName(contentsFile) } lists ${ entry.directory }/${ chapter }, which is not a chapter or is listed twice`);
+            }
+            part.chapters.push({ fileName, part, href: `${ part.slug }/${ path.basename(chapter, ".ts") }.html` });
+        }
+        return part;
+    });
+
+    if (unlisted.size > 0) {
+        const missing = Array.from(unlisted, displayName).join(", ");
+        throw new Error(`${ displayName(contentsFile) } does not list ${ missing }`);
+    }
+    return parts;
+}
@@ -0,0 +1,76 @@
+/**
+ * -------------------
+ * Emitted JavaScript
+ * -------------------
+ * Compiles every chapter for a few targets and module formats, so readers can compare how each
+ * feature is lowered. Chapters are compiled from their runnable source, so snippets marked as
+ * compile errors are left out, just as they are in the playground.
+ */
+import * as ts from "typescript";
+
+export interface EmitConfiguration {
+    title: string;
+    /** Unique among the configurations, used as an anchor. */
+    id: string;
+    target: ts.ScriptTarget;
+    module: ts.ModuleKind;
+}
+
+export const EMIT_CONFIGURATIONS: EmitConfiguration[] = [
+    { title: "ES5, CommonJS", id: "es5-commonjs", target: ts.ScriptTarget.ES5, module: ts.ModuleKind.CommonJS },
+    { title: "ES2015, CommonJS", id: "es2015-commonjs", target: ts.ScriptTarget.ES2015, module: ts.ModuleKind.CommonJS },
+    { title: "ESNext, CommonJS", id: "esnext-commonjs", target: ts.ScriptTarget.ESNext, module: ts.ModuleKind.CommonJS },
+    { title: "ES5, ES modules", id: "es5-esm", target: ts.ScriptTarget.ES5, module: ts.ModuleKind.ESNext },
+    { title: "ES2015, ES modules", id: "es2015-esm", target: ts.ScriptTarget.ES2015, module: ts.ModuleKind.ESNext },
+    { title: "ESNext, ES modules", id: "esnext-esm", target: ts.ScriptTarget.ESNext, module: ts.ModuleKind.ESNext }
+];
+
+export interface EmittedChapter {
+    configuration: EmitConfiguration;
+    javascript: string;
+}
+
+/**
+ * Emits every chapter once per configuration, in the order of EMIT_CONFIGURATIONS. `sources` maps
+ * chapter file names to the text to compile in place of the file on disk.
+ */
+export function emitChapters(sources: Map<string, string>, options: ts.CompilerOptions): Map<string, EmittedChapter[]> {
+    const emitted = new Map<string, EmittedChapter[]>();
+    for (const fileName of sources.keys()) {
+        emitted.set(fileName, []);
+    }
+
+    for (const configuration of EMIT_CONFIGURATIONS) {
+        const compilerOptions: ts.CompilerOptions = {
+            ...options,
+            target: configuration.target,
+            module: configuration.module,
+            noEmit: false,
+            sourceMap: false,
+            declaration: false
+        };
+        const program = ts.createProgram(Array.from(sources.keys()), compilerOptions, createHost(sources, compilerOptions));
+
+        for (const [fileName, chapters] of emitted) {
+            program.emit(program.getSourceFile(fileName), (name, text) => {
+                if (name.endsWith(".js")) {
+                    chapters.push({ configuration, javascript: text });
+                }
+            });
+        }
+    }
+    return emitted;
+}
+
+function createHost(sources: Map<string, string>, options: ts.CompilerOptions): ts.CompilerHost {
+    const host = ts.createCompilerHost(options);
+    const getSourceFile = host.getSourceFile;
+
+    host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) => {
+        const text = sources.get(fileName);
+        return text !== undefined
+            ? ts.createSourceFile(fileName, text, languageVersion)
+            : getSourceFile.call(host, fileName, languageVersion, onError, shouldCreate);
+    };
+    return host;
+}
@@ -0,0 +1,75 @@
+/**
+ * --------------------
+ * Syntax highlighting
+ * --------------------
+ * Code is highlighted with the TypeScript scanner itself, so the site never disagrees with the
+ * compiler about what is a keyword, a string or a comment.
+ */
+import * as ts from "typescript";
+import { escapeHtml } from "./html";
+
+export function highlight(code: string): string {
+    const scanner = ts.createScanner(ts.ScriptTarget.Latest, false, ts.LanguageVariant.Standard, code);
+    const templates: boolean[] = [];
+    let html = "";
+
+    for (let token = scanner.scan(); token !== ts.SyntaxKind.EndOfFileToken; token = scanner.scan()) {
+        if (token === ts.SyntaxKind.CloseBraceToken && templates[templates.length - 1]) {
+            token = scanner.reScanTemplateToken(false);
+        }
+        if (token === ts.SyntaxKind.SlashToken || token === ts.SyntaxKind.SlashEqualsToken) {
+            token = rescanRegularExpression(scanner, token);
+        }
+        switch (token) {
+            case ts.SyntaxKind.TemplateHead:
+            case ts.SyntaxKind.OpenBraceToken:
+                templates.push(token === ts.SyntaxKind.TemplateHead);
+                break;
+            case ts.SyntaxKind.TemplateTail:
+            case ts.SyntaxKind.CloseBraceToken:
+                templates.pop();
+                break;
+        }
+
+        const text = escapeHtml(scanner.getTokenText());
+        const className = classify(token);
+        html += className ? `<span class="${ className }">${ text }</span>` : text;
+    }
+    return html;
+}
+
+function classify(token: ts.SyntaxKind): string | undefined {
+    if (token >= ts.SyntaxKind.FirstKeyword && token <= ts.SyntaxKind.LastKeyword) {
+        return "keyword";
+    }
+    switch (token) {
+        case ts.SyntaxKind.SingleLineCommentTrivia:
+        case ts.SyntaxKind.MultiLineCommentTrivia:
+            return "comment";
+        case ts.SyntaxKind.StringLiteral:
+        case ts.SyntaxKind.NoSubstitutionTemplateLiteral:
+        case ts.SyntaxKind.TemplateHead:
+        case ts.SyntaxKind.TemplateMiddle:
+        case ts.SyntaxKind.TemplateTail:
+        case ts.SyntaxKind.RegularExpressionLiteral:
+            return "string";
+        case ts.SyntaxKind.NumericLiteral:
+        case ts.SyntaxKind.BigIntLiteral:
+            return "number";
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * A slash is a regular expression only where an expression may start. Looking at the previous
+ * significant character is enough for the kind of code a chapter contains.
+ */
+function rescanRegularExpression(scanner: ts.Scanner, token: ts.SyntaxKind): ts.SyntaxKind {
+    const before = scanner.getText().slice(0, scanner.getTokenStart()).replace(/\s+$/, "");
+    const previous = before.charAt(before.length - 1);
+    if (previous === "" || "(,=:[!&|?{};".indexOf(previous) !== -1) {
+        return scanner.reScanSlashToken();
+    }
+    return token;
+}
@@ -0,0 +1,19 @@
+const ESCAPES: { [char: string]: string } = {
+    "&": "&amp;",
+    "<": "&lt;",
+    ">": "&gt;",
+    "\"": "&quot;",
+    "'": "&#39;"
+};
+
+export function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, char => ESCAPES[char]);
+}
+
+/** Escapes prose and turns `backquoted` spans into inline code. */
+export function formatProse(text: string): string {
+    return text
+        .split(/(`[^`]+`)/)
+        .map(part => /^`[^`]+`$/.test(part) ? `<code>${ escapeHtml(part.slice(1, -1)) }</code>` : escapeHtml(part))
+        .join("");
+}
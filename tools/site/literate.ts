@@ -0,0 +1,191 @@
+/**
+ * ------------------
+ * Literate chapters
+ * ------------------
+ * A chapter alternates between banner comments, which hold the prose, and the code they describe.
+ * Banners are `/** ... *\/` comments that start at the beginning of a line; inside them a title
+ * underlined and overlined with dashes starts a new section:
+ *
+ *      /**
+ *       * --------
+ *       * Boolean
+ *       * --------
+ *       * The most basic datatype is ...
+ *       *\/
+ *
+ * The first heading of a chapter is its title. Prose lines that are indented further than the rest
+ * are code samples, as are the statements between banners.
+ */
+import * as ts from "typescript";
+
+export type Block =
+    | { kind: "paragraph"; text: string }
+    | { kind: "sample"; code: string }
+    | { kind: "code"; code: string; line: number; pos: number };
+
+export interface Section {
+    title: string;
+    /** Unique within the chapter, used as the section's anchor. */
+    id: string;
+    blocks: Block[];
+}
+
+export interface LiterateChapter {
+    title: string;
+    /** Prose and code that come before the first section heading. */
+    introduction: Block[];
+    sections: Section[];
+}
+
+export function parseChapter(text: string, fallbackTitle: string): LiterateChapter {
+    const chapter: LiterateChapter = { title: "", introduction: [], sections: [] };
+    let blocks = chapter.introduction;
+
+    const startSection = (title: string) => {
+        if (!chapter.title) {
+            chapter.title = title;
+            return;
+        }
+        const section = { title, id: uniqueId(chapter.sections, slug(title)), blocks: [] };
+        chapter.sections.push(section);
+        blocks = section.blocks;
+    };
+
+    let position = 0;
+    for (const banner of findBanners(text)) {
+        addCode(blocks, text, position, banner.pos);
+        for (const part of readBanner(text.slice(banner.pos, banner.end))) {
+            if (part.kind === "heading") {
+                startSection(part.text);
+            }
+            else {
+                blocks.push(part);
+            }
+        }
+        position = banner.end;
+    }
+    addCode(blocks, text, position, text.length);
+
+    chapter.title = chapter.title || fallbackTitle;
+    return chapter;
+}
+
+export function slug(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+function uniqueId(sections: Section[], id: string): string {
+    let candidate = id;
+    for (let n = 2; sections.some(section => section.id === candidate); n++) {
+        candidate = `${ id }-${ n }`;
+    }
+    return candidate;
+}
+
+/** Uses the scanner rather than a regular expression so that strings and templates are skipped. */
+function findBanners(text: string): ts.TextRange[] {
+    const banners: ts.TextRange[] = [];
+    const scanner = ts.createScanner(ts.ScriptTarget.Latest, false, ts.LanguageVariant.Standard, text);
+    const templates: boolean[] = [];
+
+    for (let token = scanner.scan(); token !== ts.SyntaxKind.EndOfFileToken; token = scanner.scan()) {
+        if (token === ts.SyntaxKind.CloseBraceToken && templates[templates.length - 1]) {
+            token = scanner.reScanTemplateToken(false);
+        }
+        switch (token) {
+            case ts.SyntaxKind.TemplateHead:
+            case ts.SyntaxKind.OpenBraceToken:
+                templates.push(token === ts.SyntaxKind.TemplateHead);
+                break;
+            case ts.SyntaxKind.TemplateTail:
+            case ts.SyntaxKind.CloseBraceToken:
+                templates.pop();
+                break;
+            case ts.SyntaxKind.MultiLineCommentTrivia: {
+                const pos = scanner.getTokenStart();
+                const atLineStart = pos === 0 || text.charAt(pos - 1) === "\n";
+                if (atLineStart && text.startsWith("/**", pos)) {
+                    banners.push({ pos, end: scanner.getTokenEnd() });
+                }
+                break;
+            }
+        }
+    }
+    return banners;
+}
+
+function addCode(blocks: Block[], text: string, start: number, end: number): void {
+    const code = text.slice(start, end);
+    const leadingLines = /^\s*\n/.exec(code);
+    const trimmed = code.replace(/^\s*\n/, "").replace(/\s+$/, "");
+    if (trimmed) {
+        const pos = start + (leadingLines ? leadingLines[0].length : 0);
+        blocks.push({ kind: "code", code: trimmed, line: text.slice(0, pos).split("\n").length, pos });
+    }
+}
+
+type BannerPart = Exclude<Block, { kind: "code" }> | { kind: "heading"; text: string };
+
+function readBanner(comment: string): BannerPart[] {
+    const lines = comment
+        .replace(/^\/\*\*/, "")
+        .replace(/\*\/$/, "")
+        .split(/\r?\n/)
+        .map(line => line.replace(/^\s*\* ?/, "").replace(/\s+$/, ""));
+
+    const parts: BannerPart[] = [];
+    let paragraph: string[] = [];
+    let sample: string[] = [];
+
+    const flush = () => {
+        if (paragraph.length > 0) {
+            parts.push({ kind: "paragraph", text: paragraph.join(" ") });
+            paragraph = [];
+        }
+        if (sample.length > 0) {
+            parts.push({ kind: "sample", code: dedent(sample) });
+            sample = [];
+        }
+    };
+    const isRule = (line: string | undefined) => line !== undefined && /^-{3,}$/.test(line);
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (isRule(line) && lines[i + 1] && isRule(lines[i + 2])) {
+            flush();
+            parts.push({ kind: "heading", text: lines[i + 1].trim() });
+            i += 2;
+        }
+        else if (/^\s/.test(line)) {
+            if (paragraph.length > 0) {
+                flush();
+            }
+            sample.push(line);
+        }
+        else if (line === "") {
+            if (sample.length > 0) {
+                sample.push(line);
+            }
+            else {
+                flush();
+            }
+        }
+        else {
+            if (sample.length > 0) {
+                flush();
+            }
+            paragraph.push(line);
+        }
+    }
+    flush();
+    return parts;
+}
+
+function dedent(lines: string[]): string {
+    while (lines.length > 0 && lines[lines.length - 1] === "") {
+        lines = lines.slice(0, -1);
+    }
+    const indents = lines.filter(line => line.trim()).map(line => /^\s*/.exec(line)![0].length);
+    const indent = Math.min(...indents);
+    return lines.map(line => line.slice(indent)).join("\n");
+}
@@ -0,0 +1,102 @@
+/**
+ * -----------------
+ * Playground tests
+ * -----------------
+ * Runs sections the way the playground does: the chapter up to the section, prepared by
+ * playgroundSource, then the marker call and the section, all through the runner worker script
+ * as it is built for the browser. Run with `node --test` after `npm run build`.
+ */
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import { test } from "node:test";
+import * as ts from "typescript";
+import * as vm from "vm";
+import { HANDBOOK_DIR, loadHandbook, ROOT_DIR } from "../handbook";
+import { playgroundSource } from "./playground";
+
+const RUNNER_SCRIPT = path.join(ROOT_DIR, "build", "playground", "runner.js");
+const MARKER_FILE = path.join(ROOT_DIR, "playground.d.ts");
+
+interface Message {
+    kind: string;
+    text?: string;
+}
+
+/** Compiles the section after its context as the compiler worker does, and collects what the runner reports. */
+function runSection(fileName: string, text: string, section: string): Promise<Message[]> {
+    const files = new Map([
+        [fileName, `${ playgroundSource(fileName, text) }\n__playground_section__();\n${ section }`],
+        [MARKER_FILE, "declare function __playground_section__(): void;"]
+    ]);
+    const options: ts.CompilerOptions = { ...loadHandbook().options, noEmit: false };
+    const host = ts.createCompilerHost(options);
+    const getSourceFile = host.getSourceFile;
+    host.getSourceFile = (name, languageVersion, ...rest) => files.has(name)
+        ? ts.createSourceFile(name, files.get(name)!, languageVersion)
+        : getSourceFile.call(host, name, languageVersion, ...rest);
+    let javascript = "";
+    host.writeFile = (name, output) => {
+        if (name.endsWith(".js")) {
+            javascript = output;
+        }
+    };
+    const program = ts.createProgram([fileName, MARKER_FILE], options, host);
+    program.emit(program.getSourceFile(fileName));
+
+    return new Promise(resolve => {
+        const messages: Message[] = [];
+        const scope = {
+            onmessage: undefined as ((event: { data: unknown }) => void) | undefined,
+            postMessage(message: Message) {
+                // Copied, as objects made in the runner's context have that context's prototypes.
+                messages.push({ ...message });
+                if (message.kind === "done") {
+                    resolve(messages);
+                }
+            }
+        };
+        vm.runInNewContext(fs.readFileSync(RUNNER_SCRIPT, "utf8"), { self: scope, setTimeout, clearTimeout });
+        scope.onmessage!({ data: { javascript } });
+    });
+}
+
+test("a section after a statement marked as throwing runs", async () => {
+    const chapter = [
+        "function fail(): number { throw new TypeError(\"no\"); }",
+        "let answer = 41;",
+        "fail();  // throws TypeError",
+        "if (answer) fail();  // throws TypeError",
+        "answer++;"
+    ].join("\n");
+
+    assert.deepStrictEqual(await runSection("chapter.ts", chapter, "console.log(answer);"), [
+        { kind: "output", text: "42" },
+        { kind: "done" }
+    ]);
+});
+
+test("a section still reports what it throws itself", async () => {
+    const messages = await runSection("chapter.ts", "let answer = 42;", "answer.toFixed(-1);");
+
+    assert.deepStrictEqual(messages.map(message => message.kind), ["error", "done"]);
+});
+
+for (const chapter of [
+    "Basic Types/basic-types.ts",
+    "Variable Declaration/let-declarations.ts",
+    "Interfaces/function-types.ts",
+    "Functions/this.ts",
+    "Enums/enums-at-runtime.ts",
+    "Advanced Types/intersection-and-union-types.ts"
+]) {
+    test(`a section at the end of ${ chapter } runs`, async () => {
+        const fileName = path.join(HANDBOOK_DIR, chapter);
+        const messages = await runSection(fileName, fs.readFileSync(fileName, "utf8"), "console.log(\"after\");");
+
+        assert.deepStrictEqual(messages.filter(message => message.kind !== "output" || message.text === "after"), [
+            { kind: "output", text: "after" },
+            { kind: "done" }
+        ]);
+    });
+}
@@ -0,0 +1,89 @@
+/**
+ * -----------
+ * Playground
+ * -----------
+ * Prepares what the in-browser playground needs so it runs fully offline: the TypeScript compiler,
+ * the lib declarations the chapters are checked against, the chapter compiler options, and for each
+ * chapter a runnable copy of its source.
+ *
+ * The browser side lives in tools/playground and is built separately, as it targets the DOM rather
+ * than Node.
+ */
+import * as fs from "fs";
+import * as path from "path";
+import * as ts from "typescript";
+import { ROOT_DIR } from "../handbook";
+import { collectExpectations } from "../harness/annotations";
+import { collectErrorExpectations } from "../harness/compile-errors";
+
+const CLIENT_DIR = path.join(ROOT_DIR, "build", "playground");
+const CLIENT_SCRIPTS = ["page.js", "compiler.js", "runner.js"];
+
+export function writePlayground(directory: string, options: ts.CompilerOptions): void {
+    fs.mkdirSync(directory, { recursive: true });
+    fs.copyFileSync(require.resolve("typescript"), path.join(directory, "typescript.js"));
+    for (const script of CLIENT_SCRIPTS) {
+        fs.copyFileSync(path.join(CLIENT_DIR, script), path.join(directory, script));
+    }
+
+    const environment = { options: browserOptions(options), libs: readLibs(options) };
+    fs.writeFileSync(path.join(directory, "environment.js"), `var handbookEnvironment = ${ JSON.stringify(environment) };\n`);
+}
+
+/**
+ * The chapter with every snippet marked as an expected compile error blanked out, so code that
+ * follows it can run. Blanking keeps every other character at the same offset.
+ */
+export function runnableSource(fileName: string, text: string): string {
+    const sourceFile = ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest, true);
+    return blank(text, Array.from(collectErrorExpectations(sourceFile).values()), "");
+}
+
+/**
+ * The runnable source with every statement marked `// throws` blanked out as well. The playground
+ * runs the chapter up to a section before the section itself, and an exception there would keep
+ * the section from ever running. Each statement is blanked to an empty statement, so one that is
+ * the body of an if or a loop still leaves that body in place.
+ */
+export function playgroundSource(fileName: string, text: string): string {
+    const runnable = runnableSource(fileName, text);
+    const sourceFile = ts.createSourceFile(fileName, runnable, ts.ScriptTarget.Latest, true);
+    const throwing = Array.from(collectExpectations(sourceFile).entries())
+        .filter(([, expectation]) => expectation.kind === "throws")
+        .map(([node]) => ({ start: node.getStart(sourceFile), end: node.end }));
+    return blank(runnable, throwing, ";");
+}
+
+function blank(text: string, ranges: { start: number; end: number }[], replacement: string): string {
+    let blanked = text;
+    for (const { start, end } of ranges) {
+        const spaces = text.slice(start + replacement.length, end).replace(/[^\n]/g, " ");
+        blanked = blanked.slice(0, start) + replacement + spaces + blanked.slice(end);
+    }
+    return blanked;
+}
+
+function browserOptions(options: ts.CompilerOptions): ts.CompilerOptions {
+    const { configFilePath, noEmit, ...rest } = options;
+    return rest;
+}
+
+/** Every lib file the options name, plus the ones they pull in through `/// <reference lib>`. */
+function readLibs(options: ts.CompilerOptions): { [fileName: string]: string } {
+    const libDirectory = path.dirname(require.resolve("typescript"));
+    const libs: { [fileName: string]: string } = {};
+    const pending = options.lib ? options.lib.slice() : [ts.getDefaultLibFileName(options)];
+
+    while (pending.length > 0) {
+        const fileName = pending.pop()!;
+        if (libs[fileName] !== undefined) {
+            continue;
+        }
+        const text = fs.readFileSync(path.join(libDirectory, fileName), "utf8");
+        libs[fileName] = text;
+        for (const reference of ts.preProcessFile(text).libReferenceDirectives) {
+            pending.push(`lib.${ reference.fileName.toLowerCase() }.d.ts`);
+        }
+    }
+    return libs;
+}
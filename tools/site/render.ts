@@ -0,0 +1,261 @@
+/**
+ * ----------
+ * Rendering
+ * ----------
+ * Turns parsed chapters into static pages. Every link is relative, so the site works the same from
+ * http-server, any other static host or the file system.
+ */
+import { ChapterEntry, Part } from "./contents";
+import { EmittedChapter } from "./emit";
+import { highlight } from "./highlight";
+import { escapeHtml, formatProse } from "./html";
+import { Block, LiterateChapter } from "./literate";
+
+export interface RenderedChapter {
+    entry: ChapterEntry;
+    chapter: LiterateChapter;
+    /** The chapter source the playground compiles and runs sections against. */
+    playgroundSource: string;
+}
+
+const BOOK_TITLE = "TypeScript Handbook";
+
+export function renderIndex(parts: Part[], chapters: Map<string, RenderedChapter>): string {
+    const body = parts.map(part => `
+        <section>
+            <h2><a href="${ part.slug }/index.html">${ escapeHtml(part.title) }</a></h2>
+            ${ chapterList(part, chapters, "") }
+        </section>`).join("");
+
+    return page(BOOK_TITLE, "", `
+        <h1>${ BOOK_TITLE }</h1>
+        ${ body }`);
+}
+
+export function renderPart(part: Part, chapters: Map<string, RenderedChapter>): string {
+    return page(part.title, "../", `
+        <nav class="breadcrumbs"><a href="../index.html">${ BOOK_TITLE }</a></nav>
+        <h1>${ escapeHtml(part.title) }</h1>
+        ${ chapterList(part, chapters, "../", true) }`);
+}
+
+export function renderChapter(rendered: RenderedChapter, previous?: RenderedChapter, next?: RenderedChapter): string {
+    const { entry, chapter, playgroundSource } = rendered;
+    const sections = chapter.sections.map(section => `
+        <section id="${ section.id }">
+            <h2><a href="#${ section.id }">${ escapeHtml(section.title) }</a></h2>
+            ${ section.blocks.map(renderBlock).join("") }
+        </section>`).join("");
+
+    const contents = chapter.sections.length === 0 ? "" : `
+        <nav class="contents">
+            <h2>Contents</h2>
+            <ul>${ chapter.sections.map(section => `<li><a href="#${ section.id }">${ escapeHtml(section.title) }</a></li>`).join("") }</ul>
+        </nav>`;
+
+    return page(chapter.title, "../", `
+        <nav class="breadcrumbs">
+            <a href="../index.html">${ BOOK_TITLE }</a> /
+            <a href="index.html">${ escapeHtml(entry.part.title) }</a>
+        </nav>
+        <h1>${ escapeHtml(chapter.title) }</h1>
+        ${ contents }
+        <p class="compiled"><a href="../${ compiledHref(entry) }">Compiled JavaScript</a> for ES5, ES2015 and ESNext</p>
+        <article>
+            ${ chapter.introduction.map(renderBlock).join("") }
+            ${ sections }
+        </article>
+        <nav class="pager">
+            ${ previous ? `<a rel="prev" href="../${ previous.entry.href }">&larr; ${ escapeHtml(previous.chapter.title) }</a>` : "<span></span>" }
+            ${ next ? `<a rel="next" href="../${ next.entry.href }">${ escapeHtml(next.chapter.title) } &rarr;</a>` : "<span></span>" }
+        </nav>
+        <script type="application/json" id="chapter-source">${ JSON.stringify(playgroundSource).replace(/</g, "\\u003c") }</script>
+        <script src="../playground/page.js" defer></script>`);
+}
+
+/** Shows the chapter source next to what it compiles to for each emit configuration. */
+export function renderCompiled(rendered: RenderedChapter, source: string, emitted: EmittedChapter[]): string {
+    const { entry, chapter } = rendered;
+    const outputs = emitted.map(({ configuration, javascript }, i) => `
+                <details id="${ configuration.id }"${ i === 0 ? " open" : "" }>
+                    <summary>${ escapeHtml(configuration.title) }</summary>
+                    <pre><code>${ highlight(javascript) }</code></pre>
+                </details>`).join("");
+
+    return page(`${ chapter.title }: compiled JavaScript`, "../", `
+        <nav class="breadcrumbs">
+            <a href="../index.html">${ BOOK_TITLE }</a> /
+            <a href="index.html">${ escapeHtml(entry.part.title) }</a> /
+            <a href="../${ entry.href }">${ escapeHtml(chapter.title) }</a>
+        </nav>
+        <h1>${ escapeHtml(chapter.title) }: compiled JavaScript</h1>
+        <p>Snippets marked as compile errors are left out of the compiled output.</p>
+        <div class="side-by-side">
+            <section>
+                <h2>TypeScript</h2>
+                <pre><code>${ highlight(source) }</code></pre>
+            </section>
+            <section>
+                <h2>JavaScript</h2>${ outputs }
+            </section>
+        </div>`);
+}
+
+/** Path of a chapter's compiled JavaScript page relative to the site root. */
+export function compiledHref(entry: ChapterEntry): string {
+    return entry.href.replace(/\.html$/, ".js.html");
+}
+
+function renderBlock(block: Block): string {
+    switch (block.kind) {
+        case "paragraph":
+            return `<p>${ formatProse(block.text) }</p>`;
+        case "sample":
+            return `<pre class="sample"><code>${ highlight(block.code) }</code></pre>`;
+        case "code":
+            return `<pre class="code" data-line="${ block.line }" data-pos="${ block.pos }"><code>${ highlight(block.code) }</code></pre>`;
+    }
+}
+
+function chapterList(part: Part, chapters: Map<string, RenderedChapter>, root: string, withSections = false): string {
+    const items = part.chapters.map(entry => {
+        const { chapter } = chapters.get(entry.fileName)!;
+        const href = `${ root }${ entry.href }`;
+        const sections = withSections && chapter.sections.length > 0
+            ? `<ul>${ chapter.sections.map(section => `<li><a href="${ href }#${ section.id }">${ escapeHtml(section.title) }</a></li>`).join("") }</ul>`
+            : "";
+        return `<li><a href="${ href }">${ escapeHtml(chapter.title) }</a>${ sections }</li>`;
+    });
+    return `<ul class="chapters">${ items.join("") }</ul>`;
+}
+
+function page(title: string, root: string, body: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${ escapeHtml(title === BOOK_TITLE ? title : `${ title } - ${ BOOK_TITLE }`) }</title>
+    <link rel="stylesheet" href="${ root }style.css">
+</head>
+<body>
+    <main>${ body }
+    </main>
+</body>
+</html>
+`;
+}
+
+export const STYLESHEET = `body {
+    margin: 0;
+    font: 16px/1.6 -apple-system, "Segoe UI", Helvetica, Arial, sans-serif;
+    color: #24292e;
+}
+main {
+    max-width: 52em;
+    margin: 0 auto;
+    padding: 2em 1em 4em;
+}
+a {
+    color: #0366d6;
+    text-decoration: none;
+}
+a:hover {
+    text-decoration: underline;
+}
+h2 a {
+    color: inherit;
+}
+.breadcrumbs {
+    font-size: 0.9em;
+}
+.contents {
+    border-left: 3px solid #e1e4e8;
+    padding-left: 1em;
+}
+.contents h2 {
+    font-size: 1em;
+    margin: 0;
+}
+pre {
+    background: #f6f8fa;
+    border-radius: 4px;
+    padding: 1em;
+    overflow-x: auto;
+    font: 14px/1.45 Consolas, Menlo, monospace;
+}
+pre.sample {
+    border-left: 3px solid #d1d5da;
+}
+code {
+    font-family: Consolas, Menlo, monospace;
+}
+.keyword {
+    color: #d73a49;
+}
+.string {
+    color: #032f62;
+}
+.number {
+    color: #005cc5;
+}
+.comment {
+    color: #6a737d;
+    font-style: italic;
+}
+.side-by-side {
+    display: grid;
+    grid-template-columns: 1fr 1fr;
+    gap: 1em;
+    width: 96vw;
+    margin-left: calc(50% - 48vw);
+}
+.side-by-side > section {
+    min-width: 0;
+}
+.side-by-side pre {
+    max-height: 80vh;
+    overflow: auto;
+}
+summary {
+    cursor: pointer;
+    font-weight: 600;
+}
+.playground-toolbar {
+    display: flex;
+    justify-content: flex-end;
+    gap: 0.5em;
+    margin-bottom: -0.5em;
+}
+.playground-toolbar button {
+    font-size: 0.8em;
+}
+.playground textarea {
+    box-sizing: border-box;
+    width: 100%;
+    margin: 1em 0;
+    padding: 1em;
+    font: 14px/1.45 Consolas, Menlo, monospace;
+    tab-size: 4;
+}
+.playground-output {
+    border-left: 3px solid #0366d6;
+    padding: 0.5em 1em;
+    font: 14px/1.45 Consolas, Menlo, monospace;
+    white-space: pre-wrap;
+}
+.playground-output .diagnostic,
+.playground-output .error {
+    color: #cb2431;
+}
+.playground-output .status {
+    color: #6a737d;
+}
+.pager {
+    display: flex;
+    justify-content: space-between;
+    border-top: 1px solid #e1e4e8;
+    margin-top: 3em;
+    padding-top: 1em;
+}
+`;